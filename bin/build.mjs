@@ -55,6 +55,8 @@ async function runBuild() {
           const __dirname = dirname(__filename);
         `
       },
+      // The TypeScript compiler is loaded on demand by the symbol index
+      external: ['typescript'],
       logLevel: 'info',
       // Ensure proper handling of TypeScript features
       target: 'node21', // or your target Node.js version
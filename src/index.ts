@@ -4,7 +4,12 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import {
@@ -12,9 +17,77 @@ import {
   CombinedSequentialThinkingServer,
   GEMINI_DEEPSEEK_SEQUENTIAL_TOOL,
 } from "./modules/sequential/index";
+import { loadConfig } from "./modules/config";
+import {
+  FIND_SYMBOL_TOOL,
+  FindSymbolSchema,
+  SymbolIndex,
+} from "./modules/code/symbols";
+import { mergeAvailableTools } from "./modules/sequential/available-tools";
+import { createProgressNotifier } from "./modules/sequential/progress";
+import {
+  LIST_MODES_TOOL,
+  ListModesSchema,
+  ModeRegistry,
+} from "./modules/sequential/modes";
+import {
+  LIST_BRANCHES_TOOL,
+  ListBranchesSchema,
+  describeBranches,
+} from "./modules/sequential/lineage";
+import { ProviderRegistry } from "./modules/providers/registry";
+import { PromptLibrary } from "./modules/prompts";
+import {
+  CLOSE_SESSION_TOOL,
+  CloseSessionSchema,
+  DEFAULT_SESSION_ID,
+  LIST_SESSIONS_TOOL,
+  ListSessionsSchema,
+  REGISTER_TOOLS_TOOL,
+  RESUME_SESSION_TOOL,
+  RegisterToolsSchema,
+  ResumeSessionSchema,
+  START_SESSION_TOOL,
+  SessionManager,
+  StartSessionSchema,
+  describeSession,
+  describeUncheckedTools,
+} from "./modules/session";
+import { SessionStore } from "./modules/session/store";
+import {
+  EXPORT_REASONING_TOOL,
+  ExportReasoningSchema,
+  exportSession,
+} from "./modules/session/export";
+import {
+  SESSIONS_RESOURCE_URI,
+  SESSION_RESOURCE_TEMPLATES,
+  getSessionUri,
+  getThoughtUri,
+  listSessionResources,
+  readSessionResource,
+} from "./modules/session/resources";
 
-// Initialize servers
-const combinedServer = new CombinedSequentialThinkingServer();
+// Load model profiles and initialize servers
+const config = loadConfig();
+const sessionManager = new SessionManager(
+  config.sessions.ttlMinutes,
+  config.sessions.persist ? new SessionStore(config.sessions.storageDir) : null,
+);
+const modeRegistry = new ModeRegistry(config.modes);
+const symbolIndex = new SymbolIndex(config.workspace);
+const combinedServer = new CombinedSequentialThinkingServer(
+  new ProviderRegistry(
+    config.profiles,
+    config.context,
+    config.retry,
+    PromptLibrary.load(config.prompts.directory),
+  ),
+  sessionManager,
+  modeRegistry,
+  config,
+  symbolIndex,
+);
 
 // Create MCP server
 const server = new Server(
@@ -25,10 +98,60 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: {
+        subscribe: true,
+        listChanged: true,
+      },
     },
   },
 );
 
+// Resource URIs the client asked to be notified about
+const resourceSubscriptions = new Set<string>();
+
+// Push resource change notifications as sessions evolve
+sessionManager.onChange((session, change) => {
+  if (change !== "updated") {
+    server.sendResourceListChanged().catch(() => undefined);
+  }
+
+  const latest = session.thoughtHistory[session.thoughtHistory.length - 1];
+  const changedUris = [
+    SESSIONS_RESOURCE_URI,
+    getSessionUri(session.id),
+    ...(latest ? [getThoughtUri(session.id, latest.thoughtNumber)] : []),
+  ];
+
+  for (const uri of changedUris) {
+    if (resourceSubscriptions.has(uri)) {
+      server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }
+  }
+});
+
+// Register resources
+server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+  resources: await listSessionResources(sessionManager),
+}));
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+  resourceTemplates: SESSION_RESOURCE_TEMPLATES,
+}));
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+  contents: [await readSessionResource(sessionManager, request.params.uri)],
+}));
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  resourceSubscriptions.add(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  resourceSubscriptions.delete(request.params.uri);
+  return {};
+});
+
 // Register tools
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [
@@ -36,18 +159,222 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     // OPENROUTER_SEQUENTIAL_THINKING_TOOL,
     GEMINI_DEEPSEEK_SEQUENTIAL_TOOL,
     // GEMINI_THINKER_TOOL
+    START_SESSION_TOOL,
+    LIST_SESSIONS_TOOL,
+    CLOSE_SESSION_TOOL,
+    RESUME_SESSION_TOOL,
+    REGISTER_TOOLS_TOOL,
+    LIST_BRANCHES_TOOL,
+    LIST_MODES_TOOL,
+    FIND_SYMBOL_TOOL,
+    EXPORT_REASONING_TOOL,
   ],
 }));
 
 // Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
+  const progressToken = request.params._meta?.progressToken;
 
   try {
     switch (name) {
       case "combined-sequential-thinking":
         const combinedArgs = CombinedSequentialThinkingSchema.parse(args);
-        return combinedServer.processSequentialThinking(combinedArgs);
+        return combinedServer.processSequentialThinking(combinedArgs, {
+          // Stream progress only when the client asked for it with a progress token
+          onProgress:
+            progressToken !== undefined
+              ? createProgressNotifier(
+                  progressToken,
+                  (params) =>
+                    server.notification({
+                      method: "notifications/progress",
+                      params,
+                    }),
+                  combinedArgs.progressPartialText,
+                )
+              : undefined,
+          // Client cancellation stops every model still generating
+          signal: extra.signal,
+        });
+      case "start-reasoning-session": {
+        const { query, title, availableTools } = StartSessionSchema.parse(
+          args ?? {},
+        );
+        const session = await sessionManager.start(query, title, availableTools);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                describeSession(session, sessionManager.getExpiresAt(session)),
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+      case "list-reasoning-sessions": {
+        const { includeStored } = ListSessionsSchema.parse(args ?? {});
+        const sessions = (await sessionManager.list(includeStored)).map(
+          ({ session, loaded, closed }) => ({
+            ...describeSession(
+              session,
+              loaded ? sessionManager.getExpiresAt(session) : undefined,
+            ),
+            status: closed ? "closed" : loaded ? "active" : "stored",
+          }),
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ sessions }, null, 2),
+            },
+          ],
+        };
+      }
+      case "close-reasoning-session": {
+        const { sessionId } = CloseSessionSchema.parse(args);
+        const closed = await sessionManager.close(sessionId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  sessionId,
+                  status: closed ? "closed" : "not_found",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+          isError: !closed,
+        };
+      }
+      case "resume-reasoning-session": {
+        const { sessionId } = ResumeSessionSchema.parse(args);
+        const session = await sessionManager.resume(sessionId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  ...describeSession(
+                    session,
+                    sessionManager.getExpiresAt(session),
+                  ),
+                  thoughts: session.thoughtHistory.map((t) => ({
+                    thoughtNumber: t.thoughtNumber,
+                    branchId: t.branchId,
+                    profile: t.profile,
+                    toolRequests: t.toolRequests,
+                  })),
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+      case "register-available-tools": {
+        const { sessionId, tools, replace } = RegisterToolsSchema.parse(args);
+        const session = await sessionManager.resolve(sessionId);
+        session.availableTools = replace
+          ? tools
+          : mergeAvailableTools(session.availableTools, tools);
+        await sessionManager.save(session);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  sessionId: session.id,
+                  availableTools: session.availableTools.map((tool) => tool.name),
+                  uncheckedTools: describeUncheckedTools(session.availableTools),
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+      case "list-reasoning-branches": {
+        const { sessionId } = ListBranchesSchema.parse(args ?? {});
+        const session = await sessionManager.resolve(sessionId);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  sessionId: session.id,
+                  branches: describeBranches(session),
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+      case "list-reasoning-modes": {
+        ListModesSchema.parse(args ?? {});
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ modes: modeRegistry.describe() }, null, 2),
+            },
+          ],
+        };
+      }
+      case "find-symbol": {
+        const { name, ...options } = FindSymbolSchema.parse(args);
+        const result = await symbolIndex.find(name, options);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+      case "export-reasoning": {
+        const { sessionId, format, branchId } = ExportReasoningSchema.parse(
+          args ?? {},
+        );
+        const session = await sessionManager.find(
+          sessionId ?? DEFAULT_SESSION_ID,
+        );
+        if (!session) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Unknown session: ${sessionId ?? DEFAULT_SESSION_ID}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: exportSession(session, format, branchId),
+            },
+          ],
+        };
+      }
       default:
         return {
           content: [
@@ -1,6 +1,86 @@
 // src/modules/code/context.ts
 import { z } from "zod";
 
+// Changes the server collected from git for a review context
+export const GitChangesSchema = z.object({
+  description: z.string().describe("What was compared, e.g. working tree against HEAD"),
+  additions: z.number().int(),
+  deletions: z.number().int(),
+  files: z.array(
+    z.object({
+      path: z.string(),
+      oldPath: z.string().optional().describe("Previous path of a renamed file"),
+      status: z.enum(["added", "modified", "deleted", "renamed", "binary", "untracked"]),
+      additions: z.number().int(),
+      deletions: z.number().int(),
+      hunks: z.array(
+        z.object({
+          header: z.string().describe("The @@ line of the hunk"),
+          oldStart: z.number().int(),
+          oldLines: z.number().int(),
+          newStart: z.number().int(),
+          newLines: z.number().int(),
+          lines: z.string().describe("Hunk body in unified diff format"),
+        }),
+      ),
+      blame: z
+        .array(
+          z.object({
+            startLine: z.number().int(),
+            endLine: z.number().int(),
+            commit: z.string(),
+            author: z.string(),
+            summary: z.string(),
+          }),
+        )
+        .optional()
+        .describe("Last commit of the lines the change removes or rewrites, by old line number"),
+    }),
+  ),
+  truncated: z
+    .boolean()
+    .optional()
+    .describe("Set when hunks were left out to stay within the size limit"),
+});
+
+export const GitSourceSchema = z.object({
+  source: z
+    .enum(["working-tree", "staged", "range", "base"])
+    .default("working-tree")
+    .describe(
+      "working-tree: uncommitted changes against HEAD; staged: the index against HEAD; range: a commit range; base: HEAD against its merge base with a branch",
+    ),
+  range: z
+    .string()
+    .optional()
+    .describe("Commit range for source 'range', e.g. 'v1.2.0..HEAD'"),
+  base: z.string().optional().describe("Branch to compare HEAD with for source 'base'"),
+  repository: z
+    .string()
+    .optional()
+    .describe("Repository directory inside the workspace roots; defaults to the first root"),
+  paths: z.array(z.string()).optional().describe("Limit the diff to these paths"),
+  contextLines: z
+    .number()
+    .int()
+    .min(0)
+    .max(20)
+    .default(3)
+    .describe("Unchanged lines shown around each change"),
+  blame: z
+    .boolean()
+    .default(false)
+    .describe("Attach the last commit of every line the change removes or rewrites"),
+  changes: GitChangesSchema.optional().describe("Set by the server from the local repository"),
+  note: z
+    .string()
+    .optional()
+    .describe("Set by the server when the changes could not be collected"),
+});
+
+export type GitSource = z.infer<typeof GitSourceSchema>;
+export type GitChanges = z.infer<typeof GitChangesSchema>;
+
 export const CodeContextSchema = z.object({
   type: z.literal("codeContext"),
   version: z.string().default("1.0"),
@@ -32,6 +112,10 @@ export const CodeContextSchema = z.object({
           )
           .optional()
           .describe("Relevant symbols in the file"),
+        note: z
+          .string()
+          .optional()
+          .describe("Set by the server when it could not load or had to trim the code"),
       }),
     )
     .optional()
@@ -56,6 +140,9 @@ export const CodeContextSchema = z.object({
     })
     .optional()
     .describe("Project-level information"),
+  git: GitSourceSchema.optional().describe(
+    "Pending changes to review, read by the server from the local git repository",
+  ),
 });
 
 export type CodeContext = z.infer<typeof CodeContextSchema>;
@@ -80,6 +167,10 @@ export function formatCodeContext(codeContext: CodeContext): string {
       formattedContext += `Lines ${file.startLine}-${file.endLine}\n`;
     }
 
+    if (file.note) {
+      formattedContext += `Note: ${file.note}\n`;
+    }
+
     // Add code snippet with proper formatting
     if (file.snippet) {
       formattedContext += `\`\`\`${file.language || ""}\n${file.snippet}\n\`\`\`\n`;
@@ -98,6 +189,10 @@ export function formatCodeContext(codeContext: CodeContext): string {
     }
   }
 
+  if (codeContext.git) {
+    formattedContext += formatGitChanges(codeContext.git);
+  }
+
   // Add error information if present
   if (
     codeContext.error &&
@@ -128,3 +223,52 @@ export function formatCodeContext(codeContext: CodeContext): string {
 
   return formattedContext;
 }
+
+// Render collected git changes: a summary of touched files, then each file's hunks and blame
+function formatGitChanges(git: GitSource): string {
+  if (!git.changes) {
+    return git.note ? `\n**Changes:** ${git.note}\n` : "";
+  }
+
+  const { changes } = git;
+  const markers: Record<GitChanges["files"][number]["status"], string> = {
+    added: "A",
+    modified: "M",
+    deleted: "D",
+    renamed: "R",
+    binary: "B",
+    untracked: "?",
+  };
+
+  let formatted = `\n**Changes (${changes.description}):** ${changes.files.length} files, +${changes.additions} -${changes.deletions}\n`;
+  for (const file of changes.files) {
+    const path = file.oldPath ? `${file.oldPath} -> ${file.path}` : file.path;
+    formatted += `- ${markers[file.status]} ${path} (+${file.additions} -${file.deletions})\n`;
+  }
+
+  for (const file of changes.files) {
+    if (file.hunks.length === 0) continue;
+    formatted += `\n**Diff of ${file.path}:**\n\`\`\`diff\n`;
+    formatted += file.hunks.map((hunk) => `${hunk.header}\n${hunk.lines}`).join("\n");
+    formatted += `\n\`\`\`\n`;
+
+    if (file.blame && file.blame.length > 0) {
+      formatted += `Blame of the replaced lines (old line numbers):\n`;
+      for (const entry of file.blame) {
+        const lines =
+          entry.startLine === entry.endLine
+            ? `${entry.startLine}`
+            : `${entry.startLine}-${entry.endLine}`;
+        formatted += `- ${lines}: ${entry.commit} ${entry.author} "${entry.summary}"\n`;
+      }
+    }
+  }
+
+  if (changes.truncated) {
+    formatted += `\n(Some hunks were left out to stay within the size limit)\n`;
+  }
+  if (git.note) {
+    formatted += `Note: ${git.note}\n`;
+  }
+  return formatted;
+}
@@ -0,0 +1,125 @@
+import { describe, expect, test } from "bun:test";
+import { checkRef, parseDiff, parseRange } from "./git";
+
+describe("checkRef", () => {
+  test("accepts branch names, tags and revision expressions", () => {
+    expect(checkRef("main", "base")).toBe("main");
+    expect(checkRef("v1.2.0", "base")).toBe("v1.2.0");
+    expect(checkRef("HEAD~2", "base")).toBe("HEAD~2");
+  });
+
+  test("refuses empty values, whitespace and leading dashes", () => {
+    const message = "git.base must be a revision such as 'main' or 'v1.2.0..HEAD'";
+    expect(() => checkRef(undefined, "base")).toThrow(message);
+    expect(() => checkRef("", "base")).toThrow(message);
+    expect(() => checkRef("main branch", "base")).toThrow(message);
+    expect(() => checkRef("--output=/tmp/x", "base")).toThrow(message);
+  });
+});
+
+describe("parseRange", () => {
+  test("splits two and three dot ranges", () => {
+    expect(parseRange("main..feature")).toEqual({
+      range: "main..feature",
+      from: "main",
+      dots: "..",
+      to: "feature",
+    });
+    expect(parseRange("v1.2.0...HEAD")).toEqual({
+      range: "v1.2.0...HEAD",
+      from: "v1.2.0",
+      dots: "...",
+      to: "HEAD",
+    });
+  });
+
+  test("leaves an omitted end empty", () => {
+    expect(parseRange("main..")).toMatchObject({ from: "main", to: "" });
+    expect(parseRange("...main")).toMatchObject({ from: "", dots: "...", to: "main" });
+  });
+
+  test("refuses a dash at the start of either end", () => {
+    expect(() => parseRange("--all")).toThrow("git.range must be a revision");
+    expect(() => parseRange("main..--output=/tmp/x")).toThrow("git.range must be a revision");
+    expect(() => parseRange("main...-p")).toThrow("git.range must be a revision");
+  });
+
+  test("refuses revisions without dots", () => {
+    expect(() => parseRange("main")).toThrow("git.range must have the form A..B or A...B");
+  });
+});
+
+describe("parseDiff", () => {
+  test("splits files and hunks and counts changed lines", () => {
+    const diff = [
+      "diff --git a/src/app.ts b/src/app.ts",
+      "index 1111111..2222222 100644",
+      "--- a/src/app.ts",
+      "+++ b/src/app.ts",
+      "@@ -1,3 +1,3 @@",
+      " const a = 1;",
+      "-const b = 2;",
+      "+const b = 3;",
+      " const c = 4;",
+      "@@ -10 +10,2 @@ function run() {",
+      " run();",
+      "+stop();",
+      "\\ No newline at end of file",
+      "diff --git a/new.md b/new.md",
+      "new file mode 100644",
+      "--- /dev/null",
+      "+++ b/new.md",
+      "@@ -0,0 +1 @@",
+      "+# New",
+      "",
+    ].join("\n");
+
+    const [app, added] = parseDiff(diff);
+    expect(app).toMatchObject({
+      path: "src/app.ts",
+      status: "modified",
+      additions: 2,
+      deletions: 1,
+    });
+    expect(app.hunks).toEqual([
+      {
+        header: "@@ -1,3 +1,3 @@",
+        oldStart: 1,
+        oldLines: 3,
+        newStart: 1,
+        newLines: 3,
+        lines: " const a = 1;\n-const b = 2;\n+const b = 3;\n const c = 4;",
+      },
+      {
+        header: "@@ -10 +10,2 @@ function run() {",
+        oldStart: 10,
+        oldLines: 1,
+        newStart: 10,
+        newLines: 2,
+        lines: " run();\n+stop();\n\\ No newline at end of file",
+      },
+    ]);
+    expect(added).toMatchObject({ path: "new.md", status: "added", additions: 1 });
+  });
+
+  test("reads renames, deletions and binary files", () => {
+    const diff = [
+      "diff --git a/old.ts b/new.ts",
+      "similarity index 100%",
+      "rename from old.ts",
+      "rename to new.ts",
+      "diff --git a/gone.ts b/gone.ts",
+      "deleted file mode 100644",
+      "diff --git a/logo.png b/logo.png",
+      "Binary files a/logo.png and b/logo.png differ",
+    ].join("\n");
+
+    expect(
+      parseDiff(diff).map(({ path, oldPath, status }) => ({ path, oldPath, status })),
+    ).toEqual([
+      { path: "new.ts", oldPath: "old.ts", status: "renamed" },
+      { path: "gone.ts", oldPath: undefined, status: "deleted" },
+      { path: "logo.png", oldPath: undefined, status: "binary" },
+    ]);
+  });
+});
@@ -0,0 +1,328 @@
+// src/modules/code/git.ts
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { GitChanges, GitSource } from "./context";
+
+const run = promisify(execFile);
+
+type FileChange = GitChanges["files"][number];
+type Hunk = FileChange["hunks"][number];
+
+const GIT_TIMEOUT_MS = 30000;
+const MAX_UNTRACKED_FILES = 100;
+// Blame runs once per file, so only the first files of large diffs get it
+const MAX_BLAME_FILES = 20;
+
+// Refs reach git as plain arguments, never through a shell; a leading dash would read as an option
+const REF_PATTERN = /^[^-\s]\S*$/;
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await run(
+      "git",
+      ["-c", "core.quotePath=false", "--literal-pathspecs", ...args],
+      { cwd, maxBuffer: 64 * 1024 * 1024, timeout: GIT_TIMEOUT_MS },
+    );
+    return stdout;
+  } catch (error) {
+    const failure = error as NodeJS.ErrnoException & { stderr?: string };
+    if (failure.code === "ENOENT") {
+      throw new Error("git is not installed");
+    }
+    throw new Error(failure.stderr?.trim() || failure.message);
+  }
+}
+
+export function checkRef(value: string | undefined, field: string): string {
+  if (!value || !REF_PATTERN.test(value)) {
+    throw new Error(`git.${field} must be a revision such as 'main' or 'v1.2.0..HEAD'`);
+  }
+  return value;
+}
+
+// Both ends of an A..B or A...B range, each checked on its own so neither can start with a
+// dash; an empty end stands for HEAD
+export function parseRange(value: string | undefined): {
+  range: string;
+  from: string;
+  dots: ".." | "...";
+  to: string;
+} {
+  const range = checkRef(value, "range");
+  const match = range.match(/^(.*?)(\.{2,3})(.*)$/);
+  if (!match) {
+    throw new Error("git.range must have the form A..B or A...B");
+  }
+  const [, from, dots, to] = match;
+  if (from) checkRef(from, "range");
+  if (to) checkRef(to, "range");
+  return { range, from, dots: dots as ".." | "...", to };
+}
+
+// Diff arguments for a source, with the revision its replaced lines come from
+async function describeSource(
+  cwd: string,
+  source: GitSource,
+): Promise<{ args: string[]; description: string; oldRevision: string }> {
+  switch (source.source) {
+    case "staged":
+      return {
+        args: ["--cached", "HEAD"],
+        description: "staged changes against HEAD",
+        oldRevision: "HEAD",
+      };
+    case "range": {
+      const { range, from, dots, to } = parseRange(source.range);
+      return {
+        args: [range],
+        description: `commits ${range}`,
+        oldRevision:
+          dots === "..."
+            ? (await git(cwd, ["merge-base", from || "HEAD", to || "HEAD"])).trim()
+            : from || "HEAD",
+      };
+    }
+    case "base": {
+      const base = checkRef(source.base, "base");
+      return {
+        args: [`${base}...HEAD`],
+        description: `HEAD against its merge base with ${base}`,
+        oldRevision: (await git(cwd, ["merge-base", base, "HEAD"])).trim(),
+      };
+    }
+    default:
+      return {
+        args: ["HEAD"],
+        description: "working tree against HEAD",
+        oldRevision: "HEAD",
+      };
+  }
+}
+
+// Split unified diff output into files and hunks
+export function parseDiff(text: string): FileChange[] {
+  const files: FileChange[] = [];
+  let file: FileChange | undefined;
+  let hunk: (Hunk & { body: string[] }) | undefined;
+
+  const closeHunk = () => {
+    if (file && hunk) {
+      const { body, ...rest } = hunk;
+      file.hunks.push({ ...rest, lines: body.join("\n") });
+    }
+    hunk = undefined;
+  };
+
+  for (const line of text.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      closeHunk();
+      const paths = line.match(/^diff --git a\/(.*) b\/(.*)$/);
+      file = {
+        path: paths?.[2] ?? line.slice("diff --git ".length),
+        status: "modified",
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      files.push(file);
+      continue;
+    }
+    if (!file) continue;
+
+    // Hunk bodies hold context, added, removed and "\ No newline" lines
+    if (hunk && /^[ +\-\\]/.test(line)) {
+      if (line.startsWith("+")) file.additions++;
+      if (line.startsWith("-")) file.deletions++;
+      hunk.body.push(line);
+      continue;
+    }
+    closeHunk();
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      hunk = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: "",
+        body: [],
+      };
+    } else if (line.startsWith("new file mode")) {
+      file.status = "added";
+    } else if (line.startsWith("deleted file mode")) {
+      file.status = "deleted";
+    } else if (line.startsWith("rename from ")) {
+      file.status = "renamed";
+      file.oldPath = line.slice("rename from ".length);
+    } else if (line.startsWith("rename to ")) {
+      file.path = line.slice("rename to ".length);
+    } else if (line.startsWith("Binary files ")) {
+      file.status = "binary";
+    } else if (line.startsWith("+++ b/")) {
+      file.path = line.slice("+++ b/".length);
+    }
+  }
+  closeHunk();
+
+  return files;
+}
+
+// Old-side line numbers a file's hunks remove or rewrite
+function replacedLines(file: FileChange): number[] {
+  const lines: number[] = [];
+  for (const hunk of file.hunks) {
+    let oldLine = hunk.oldStart;
+    for (const line of hunk.lines.split("\n")) {
+      if (line.startsWith("-")) lines.push(oldLine);
+      if (line.startsWith("-") || line.startsWith(" ")) oldLine++;
+    }
+  }
+  return lines;
+}
+
+// Group lines into "-L start,end" ranges for git blame
+function toRanges(lines: number[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const line of lines) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === line - 1) {
+      last[1] = line;
+    } else {
+      ranges.push([line, line]);
+    }
+  }
+  return ranges;
+}
+
+// Last commit of each replaced line, merged into runs of consecutive lines from one commit
+async function blameReplacedLines(
+  cwd: string,
+  revision: string,
+  file: FileChange,
+): Promise<FileChange["blame"]> {
+  const ranges = toRanges(replacedLines(file));
+  if (ranges.length === 0) return undefined;
+
+  const output = await git(cwd, [
+    "blame",
+    "--porcelain",
+    "--no-textconv",
+    ...ranges.flatMap(([start, end]) => ["-L", `${start},${end}`]),
+    revision,
+    "--",
+    file.oldPath ?? file.path,
+  ]);
+
+  const commits = new Map<string, { author: string; summary: string }>();
+  const blame: NonNullable<FileChange["blame"]> = [];
+  let current: { commit: string; line: number } | undefined;
+
+  for (const line of output.split("\n")) {
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+    if (header) {
+      current = { commit: header[1], line: Number(header[2]) };
+      if (!commits.has(current.commit)) {
+        commits.set(current.commit, { author: "", summary: "" });
+      }
+      continue;
+    }
+    if (!current) continue;
+
+    const details = commits.get(current.commit)!;
+    if (line.startsWith("author ")) {
+      details.author = line.slice("author ".length);
+    } else if (line.startsWith("summary ")) {
+      details.summary = line.slice("summary ".length);
+    } else if (line.startsWith("\t")) {
+      const commit = current.commit.slice(0, 8);
+      const last = blame[blame.length - 1];
+      if (last && last.commit === commit && last.endLine === current.line - 1) {
+        last.endLine = current.line;
+      } else {
+        blame.push({
+          startLine: current.line,
+          endLine: current.line,
+          commit,
+          author: details.author,
+          summary: details.summary,
+        });
+      }
+    }
+  }
+
+  return blame;
+}
+
+// Collect the changes a git source describes from the repository at cwd. Hunks past maxBytes
+// are left out, but every touched file is still listed
+export async function collectGitChanges(
+  cwd: string,
+  source: GitSource,
+  maxBytes: number,
+): Promise<GitChanges> {
+  const { args, description, oldRevision } = await describeSource(cwd, source);
+  const paths = source.paths ?? [];
+
+  const diff = await git(cwd, [
+    "diff",
+    "--no-color",
+    "--no-ext-diff",
+    "--no-textconv",
+    "--find-renames",
+    "--relative",
+    `-U${source.contextLines}`,
+    ...args,
+    "--",
+    ...paths,
+  ]);
+  const files = parseDiff(diff);
+
+  if (source.source === "working-tree") {
+    const untracked = await git(cwd, [
+      "ls-files",
+      "--others",
+      "--exclude-standard",
+      "--",
+      ...paths,
+    ]);
+    for (const path of untracked.split("\n").filter(Boolean).slice(0, MAX_UNTRACKED_FILES)) {
+      files.push({ path, status: "untracked", additions: 0, deletions: 0, hunks: [] });
+    }
+  }
+
+  let remainingBytes = maxBytes;
+  let truncated = false;
+  for (const file of files) {
+    const kept = [];
+    for (const hunk of file.hunks) {
+      const bytes = Buffer.byteLength(hunk.lines);
+      if (bytes > remainingBytes) {
+        truncated = true;
+        break;
+      }
+      remainingBytes -= bytes;
+      kept.push(hunk);
+    }
+    file.hunks = kept;
+  }
+
+  if (source.blame) {
+    const blamed = files
+      .filter((file) => file.status === "modified" || file.status === "renamed")
+      .filter((file) => file.hunks.length > 0)
+      .slice(0, MAX_BLAME_FILES);
+    for (const file of blamed) {
+      file.blame = await blameReplacedLines(cwd, oldRevision, file);
+    }
+  }
+
+  return {
+    description,
+    additions: files.reduce((total, file) => total + file.additions, 0),
+    deletions: files.reduce((total, file) => total + file.deletions, 0),
+    files,
+    truncated: truncated || undefined,
+  };
+}
@@ -0,0 +1,403 @@
+// src/modules/code/local-tools.ts
+import { readFile, readdir, stat } from "fs/promises";
+import { join, relative, sep } from "path";
+import type { ReasonConfig } from "../config";
+import type { AvailableTool } from "../sequential/available-tools";
+import type { ToolRequest } from "../sequential/tool-requests";
+import { CodeContextResolver } from "./resolver";
+import { IGNORED_DIRECTORIES, SymbolIndex } from "./symbols";
+
+export type LocalToolOptions = ReasonConfig["localTools"];
+
+export type LocalToolName = "grep" | "read_file" | "list_directory" | "find_symbol";
+
+// One tool run the server performed while generating a thought
+export type ToolExecution = {
+  round: number; // 1 for tools requested by the first generation
+  toolType: LocalToolName;
+  query: string;
+  arguments: Record<string, unknown>;
+  ok: boolean;
+  output: string;
+  durationMs: number;
+};
+
+const MAX_LISTED_ENTRIES = 200;
+const MAX_MATCH_LENGTH = 200;
+// Definitions and references one find_symbol run returns
+const MAX_SYMBOL_RESULTS = 10;
+
+// Name pattern with * wildcards as an anchored expression
+const toNamePattern = (pattern: string): RegExp =>
+  new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+  );
+
+// Read-only tools the server can run itself, offered to models next to the client's tools
+export const LOCAL_TOOLS: AvailableTool[] = [
+  {
+    name: "grep",
+    description:
+      "Search the text files of the workspace for a literal string; returns path:line: text for each match",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pattern: { type: "string", minLength: 1 },
+        path: {
+          type: "string",
+          description: "File or directory to search, relative to the workspace",
+        },
+        ignoreCase: { type: "boolean" },
+      },
+      required: ["pattern"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "read_file",
+    description: "Read a workspace file, optionally only a line range",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", minLength: 1 },
+        startLine: { type: "integer", minimum: 1 },
+        endLine: { type: "integer", minimum: 1 },
+      },
+      required: ["path"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "list_directory",
+    description: "List the files and directories in a workspace directory",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Directory relative to the workspace; the workspace itself when omitted",
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "find_symbol",
+    description:
+      "Find where a TypeScript or JavaScript symbol is defined, with its code, and the lines that use it. Uses are matched by name, so same-named identifiers from other scopes are mixed in",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, description: "Symbol name, matched exactly" },
+        kind: {
+          type: "string",
+          enum: [
+            "function",
+            "class",
+            "interface",
+            "type",
+            "enum",
+            "namespace",
+            "variable",
+            "method",
+            "property",
+          ],
+        },
+      },
+      required: ["name"],
+      additionalProperties: false,
+    },
+  },
+];
+
+const LOCAL_TOOL_NAMES = new Set(LOCAL_TOOLS.map((tool) => tool.name));
+
+// Older tool types a model may use instead of the local tool names
+const LEGACY_TOOL_TYPES: Record<string, LocalToolName> = {
+  file_content: "read_file",
+  file_search: "grep",
+  symbol_definition: "find_symbol",
+};
+
+// The argument a bare query stands for with each tool
+const QUERY_ARGUMENTS: Record<LocalToolName, string> = {
+  grep: "pattern",
+  read_file: "path",
+  list_directory: "path",
+  find_symbol: "name",
+};
+
+// Arguments compared with their keys in order, so a repeated request matches however it is written
+const argumentsKey = (args: Record<string, unknown> = {}): string =>
+  JSON.stringify(args, Object.keys(args).sort());
+
+// Whether a normalized request repeats one of the earlier runs or queued requests
+export function hasRun(
+  earlier: Pick<ToolRequest, "toolType" | "arguments">[],
+  request: ToolRequest,
+): boolean {
+  const key = argumentsKey(request.arguments);
+  return earlier.some(
+    (run) => run.toolType === request.toolType && argumentsKey(run.arguments) === key,
+  );
+}
+
+// Runs grep, read_file, list_directory and find_symbol inside the workspace roots. Nothing is written and no
+// process is started; every path goes through the resolver's root checks
+export class LocalToolRunner {
+  private resolver: CodeContextResolver;
+  private maxOutputBytes: number;
+  private maxMatches: number;
+  private maxFileBytes: number;
+  private maxFiles: number;
+  private ignored: RegExp[];
+  private symbols: SymbolIndex;
+  public readonly maxRounds: number;
+
+  constructor(
+    resolver: CodeContextResolver,
+    options: LocalToolOptions,
+    workspace: ReasonConfig["workspace"],
+    symbols: SymbolIndex = new SymbolIndex(workspace),
+  ) {
+    this.resolver = resolver;
+    this.maxRounds = options.maxRounds;
+    this.maxOutputBytes = options.maxOutputBytes;
+    this.maxMatches = options.maxMatches;
+    this.maxFileBytes = workspace.maxFileBytes;
+    this.maxFiles = workspace.maxIndexFiles;
+    this.ignored = options.ignore.map(toNamePattern);
+    this.symbols = symbols;
+  }
+
+  // Map older tool types and bare queries onto a local tool with arguments
+  public normalize(request: ToolRequest): ToolRequest {
+    const toolType = Object.hasOwn(LEGACY_TOOL_TYPES, request.toolType)
+      ? LEGACY_TOOL_TYPES[request.toolType]
+      : request.toolType;
+    if (!LOCAL_TOOL_NAMES.has(toolType)) return request;
+
+    return {
+      ...request,
+      toolType,
+      arguments: request.arguments ?? {
+        [QUERY_ARGUMENTS[toolType as LocalToolName]]: request.query,
+      },
+    };
+  }
+
+  public canRun(request: ToolRequest): boolean {
+    return LOCAL_TOOL_NAMES.has(request.toolType);
+  }
+
+  public async run(request: ToolRequest, round: number): Promise<ToolExecution> {
+    const started = Date.now();
+    const toolType = request.toolType as LocalToolName;
+    const args = request.arguments ?? {};
+
+    let ok = true;
+    let output: string;
+    try {
+      output = await this.execute(toolType, args);
+    } catch (error) {
+      ok = false;
+      output = `Error: ${(error as Error).message ?? error}`;
+    }
+
+    return {
+      round,
+      toolType,
+      query: request.query,
+      arguments: args,
+      ok,
+      output: this.cap(output),
+      durationMs: Date.now() - started,
+    };
+  }
+
+  // Tool results in the shape of an externalToolResult, after any result the client passed
+  public toExternalResult(
+    executions: ToolExecution[],
+    clientResult?: { toolType: string; query: string; result: string },
+  ): { toolType: string; query: string; result: string } {
+    const sections = executions.map(
+      (execution) =>
+        `[${execution.toolType}] ${execution.query}${execution.ok ? "" : " (failed)"}\n${execution.output}`,
+    );
+    if (clientResult) {
+      sections.unshift(
+        `[${clientResult.toolType}] ${clientResult.query}\n${clientResult.result}`,
+      );
+    }
+
+    return {
+      toolType: "local tools run by the server",
+      query: executions.map((execution) => execution.query).join("; "),
+      result: sections.join("\n\n"),
+    };
+  }
+
+  private async execute(
+    toolType: LocalToolName,
+    args: Record<string, unknown>,
+  ): Promise<string> {
+    const path = typeof args.path === "string" ? args.path : undefined;
+    switch (toolType) {
+      case "read_file": {
+        const lines = await this.resolver.readLines({
+          path: await this.locateVisible(path ?? ""),
+          startLine: typeof args.startLine === "number" ? args.startLine : undefined,
+          endLine: typeof args.endLine === "number" ? args.endLine : undefined,
+        });
+        return `${path} lines ${lines.startLine}-${lines.endLine}${lines.note ? ` (${lines.note})` : ""}\n${lines.snippet}`;
+      }
+      case "list_directory":
+        return this.listDirectory(path);
+      case "grep":
+        return this.grep(String(args.pattern ?? ""), path, args.ignoreCase === true);
+      case "find_symbol":
+        return this.findSymbol(
+          String(args.name ?? ""),
+          typeof args.kind === "string" ? args.kind : undefined,
+        );
+    }
+  }
+
+  private async listDirectory(path: string = "."): Promise<string> {
+    const directory = await this.locateVisible(path, true);
+    const entries = await readdir(directory, { withFileTypes: true });
+    const names = entries
+      .filter((entry) => !this.isIgnored(entry.name))
+      .map((entry) =>
+        entry.isDirectory()
+          ? `${entry.name}/`
+          : entry.isSymbolicLink()
+            ? `${entry.name}@`
+            : entry.name,
+      )
+      .sort();
+
+    const listed = names.slice(0, MAX_LISTED_ENTRIES).join("\n");
+    return names.length > MAX_LISTED_ENTRIES
+      ? `${listed}\n… ${names.length - MAX_LISTED_ENTRIES} more entries`
+      : listed || "(empty directory)";
+  }
+
+  private async grep(
+    pattern: string,
+    path: string = ".",
+    ignoreCase: boolean,
+  ): Promise<string> {
+    if (!pattern) throw new Error("grep needs a pattern");
+    const needle = ignoreCase ? pattern.toLowerCase() : pattern;
+    const start = await this.locateVisible(path, true);
+
+    const matches: string[] = [];
+    let scanned = 0;
+    for await (const file of this.walk(start)) {
+      if (matches.length >= this.maxMatches || scanned >= this.maxFiles) break;
+      scanned++;
+
+      const stats = await stat(file).catch(() => undefined);
+      if (!stats || stats.size > this.maxFileBytes) continue;
+      const text = await readFile(file, "utf-8").catch(() => "");
+      if (text.includes("\0")) continue;
+
+      const display = join(path, relative(start, file));
+      const lines = text.split(/\r?\n/);
+      for (let index = 0; index < lines.length; index++) {
+        const line = ignoreCase ? lines[index].toLowerCase() : lines[index];
+        if (!line.includes(needle)) continue;
+        matches.push(
+          `${display}:${index + 1}: ${lines[index].trim().slice(0, MAX_MATCH_LENGTH)}`,
+        );
+        if (matches.length >= this.maxMatches) break;
+      }
+    }
+
+    if (matches.length === 0) return `No matches for "${pattern}"`;
+    return matches.length >= this.maxMatches
+      ? `${matches.join("\n")}\n(stopped at ${this.maxMatches} matches)`
+      : matches.join("\n");
+  }
+
+  // Definitions with their code, then the lines using the name, leaving out ignored files
+  private async findSymbol(name: string, kind?: string): Promise<string> {
+    if (!name) throw new Error("find_symbol needs a name");
+    const result = await this.symbols.find(name, {
+      kind,
+      maxResults: MAX_SYMBOL_RESULTS,
+    });
+    const visible = (path: string) =>
+      !path.split(sep).some((segment) => this.isIgnored(segment));
+
+    const definitions = result.definitions
+      .filter((definition) => visible(definition.path))
+      .map(
+        (definition) =>
+          `${definition.path}:${definition.line} ${definition.kind} ${definition.container ? `${definition.container}.` : ""}${definition.name}\n${definition.code}`,
+      );
+    const references = result.references
+      .filter((reference) => visible(reference.path))
+      .map((reference) => `${reference.path}:${reference.line}: ${reference.text}`);
+
+    if (definitions.length === 0 && references.length === 0) {
+      return `No definition or use of "${name}" in ${result.indexedFiles} indexed files`;
+    }
+    return [
+      definitions.length > 0
+        ? `Definitions:\n\n${definitions.join("\n\n")}`
+        : `No definition of "${name}" found`,
+      references.length > 0
+        ? `Uses by name (${result.totalReferences} in total):\n${references.join("\n")}`
+        : undefined,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  private isIgnored(name: string): boolean {
+    return this.ignored.some((pattern) => pattern.test(name));
+  }
+
+  // Real path of a workspace file or directory that no ignore pattern hides, so dotfiles and
+  // key files never reach a prompt
+  private async locateVisible(path: string, directory: boolean = false): Promise<string> {
+    const located = await this.resolver.locate(path, directory);
+    const fromRoot = this.resolver.relativeToRoot(located);
+    if (fromRoot !== "" && fromRoot.split(sep).some((name) => this.isIgnored(name))) {
+      throw new Error(`${path} is excluded from local tools by localTools.ignore`);
+    }
+    return located;
+  }
+
+  // Files at or under a path, without ignored names; symlinks are not followed so the walk
+  // stays inside the roots
+  private async *walk(path: string): AsyncGenerator<string> {
+    const stats = await stat(path);
+    if (stats.isFile()) {
+      yield path;
+      return;
+    }
+
+    const entries = await readdir(path, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const child = join(path, entry.name);
+      if (this.isIgnored(entry.name)) continue;
+      if (entry.isDirectory()) {
+        if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+        yield* this.walk(child);
+      } else if (entry.isFile()) {
+        yield child;
+      }
+    }
+  }
+
+  private cap(output: string): string {
+    if (Buffer.byteLength(output) <= this.maxOutputBytes) return output;
+    return `${Buffer.from(output).subarray(0, this.maxOutputBytes).toString("utf-8")}\n[output trimmed to ${this.maxOutputBytes} bytes]`;
+  }
+}
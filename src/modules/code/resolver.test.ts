@@ -0,0 +1,192 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CodeContextResolver, WorkspaceOptions, inferLanguage } from "./resolver";
+
+let base: string;
+let root: string;
+let secondRoot: string;
+let outside: string;
+
+const options = (overrides: Partial<WorkspaceOptions> = {}): WorkspaceOptions => ({
+  roots: [root, secondRoot],
+  maxFileBytes: 512000,
+  maxLines: 400,
+  maxTotalBytes: 200000,
+  maxIndexFiles: 5000,
+  ...overrides,
+});
+
+beforeAll(async () => {
+  base = await realpath(await mkdtemp(join(tmpdir(), "resolver-test-")));
+  root = join(base, "root");
+  secondRoot = join(base, "second");
+  outside = join(base, "outside");
+  await Promise.all([
+    mkdir(join(root, "src"), { recursive: true }),
+    mkdir(secondRoot),
+    mkdir(outside),
+  ]);
+  await Promise.all([
+    writeFile(
+      join(root, "src", "math.ts"),
+      "export function add(a: number, b: number) {\n  return a + b;\n}\n",
+    ),
+    writeFile(join(root, "lines.txt"), "one\ntwo\nthree\nfour\nfive\n"),
+    writeFile(join(root, "binary.bin"), "a\0b"),
+    writeFile(join(secondRoot, "only-here.md"), "# Second root\n"),
+    writeFile(join(outside, "secret.txt"), "secret\n"),
+  ]);
+  await symlink(join(outside, "secret.txt"), join(root, "escape.txt"));
+});
+
+afterAll(async () => {
+  await rm(base, { recursive: true, force: true });
+});
+
+describe("inferLanguage", () => {
+  test("maps extensions to fence languages regardless of case", () => {
+    expect(inferLanguage("src/app.TSX")).toBe("typescript");
+    expect(inferLanguage("main.py")).toBe("python");
+    expect(inferLanguage("Makefile")).toBeUndefined();
+  });
+});
+
+describe("CodeContextResolver.locate", () => {
+  test("looks relative paths up in each root in turn", async () => {
+    const resolver = new CodeContextResolver(options());
+    expect(await resolver.locate("src/math.ts")).toBe(join(root, "src", "math.ts"));
+    expect(await resolver.locate("only-here.md")).toBe(join(secondRoot, "only-here.md"));
+  });
+
+  test("accepts absolute paths inside a root", async () => {
+    const resolver = new CodeContextResolver(options());
+    const path = join(root, "lines.txt");
+    expect(await resolver.locate(path)).toBe(path);
+  });
+
+  test("refuses paths that lead out of the roots", async () => {
+    const resolver = new CodeContextResolver(options());
+    await expect(resolver.locate("../outside/secret.txt")).rejects.toThrow(
+      "outside the allowed workspace roots",
+    );
+    await expect(resolver.locate(join(outside, "secret.txt"))).rejects.toThrow(
+      "outside the allowed workspace roots",
+    );
+    // Symlinks are followed before the check
+    await expect(resolver.locate("escape.txt")).rejects.toThrow(
+      "outside the allowed workspace roots",
+    );
+  });
+
+  test("only accepts a root itself as a directory", async () => {
+    const resolver = new CodeContextResolver(options());
+    await expect(resolver.locate(root)).rejects.toThrow("outside the allowed workspace roots");
+    expect(await resolver.locate(root, true)).toBe(root);
+  });
+
+  test("reports missing files and missing roots", async () => {
+    await expect(new CodeContextResolver(options()).locate("nope.ts")).rejects.toThrow(
+      "nope.ts was not found in the workspace roots",
+    );
+    await expect(
+      new CodeContextResolver(options({ roots: [] })).locate("src/math.ts"),
+    ).rejects.toThrow("no workspace roots are configured");
+  });
+});
+
+describe("CodeContextResolver.relativeToRoot", () => {
+  test("strips the root holding the path", () => {
+    const resolver = new CodeContextResolver(options());
+    expect(resolver.relativeToRoot(join(root, "src", "math.ts"))).toBe(join("src", "math.ts"));
+    expect(resolver.relativeToRoot(join(secondRoot, "only-here.md"))).toBe("only-here.md");
+    expect(resolver.relativeToRoot(join(outside, "secret.txt"))).toBe(
+      join(outside, "secret.txt"),
+    );
+  });
+});
+
+describe("CodeContextResolver.readLines", () => {
+  test("reads the requested range", async () => {
+    const resolver = new CodeContextResolver(options());
+    expect(await resolver.readLines({ path: "lines.txt", startLine: 2, endLine: 3 })).toEqual({
+      snippet: "two\nthree",
+      startLine: 2,
+      endLine: 3,
+      note: undefined,
+    });
+  });
+
+  test("trims ranges to the line limit", async () => {
+    const resolver = new CodeContextResolver(options({ maxLines: 2 }));
+    expect(await resolver.readLines({ path: "lines.txt", startLine: 2, endLine: 5 })).toEqual({
+      snippet: "two\nthree",
+      startLine: 2,
+      endLine: 3,
+      note: "Trimmed to the first 2 lines of the requested range",
+    });
+  });
+
+  test("refuses directories, large and binary files", async () => {
+    const resolver = new CodeContextResolver(options({ maxFileBytes: 20 }));
+    await expect(resolver.readLines({ path: "src" })).rejects.toThrow("src is not a file");
+    await expect(resolver.readLines({ path: "src/math.ts" })).rejects.toThrow(
+      "above the 20 byte limit",
+    );
+    await expect(resolver.readLines({ path: "binary.bin" })).rejects.toThrow(
+      "looks like a binary file",
+    );
+  });
+
+  test("refuses a start line past the end of the file", async () => {
+    const resolver = new CodeContextResolver(options());
+    await expect(resolver.readLines({ path: "lines.txt", startLine: 9 })).rejects.toThrow(
+      "line 9 is past the end of lines.txt (5 lines)",
+    );
+  });
+});
+
+describe("CodeContextResolver.resolve", () => {
+  test("fills in snippets, languages and symbols, and notes files it cannot read", async () => {
+    const resolver = new CodeContextResolver(options());
+    const context = await resolver.resolve({
+      type: "codeContext",
+      version: "1.0",
+      files: [
+        { path: "src/math.ts" },
+        { path: "given.py", snippet: "print(1)" },
+        { path: "escape.txt" },
+      ],
+    });
+
+    const [math, given, escape] = context.files!;
+    expect(math.snippet).toBe("export function add(a: number, b: number) {\n  return a + b;\n}");
+    expect(math.language).toBe("typescript");
+    expect(math.symbols).toEqual([{ name: "add", type: "function", line: 1 }]);
+    expect(given).toEqual({
+      path: "given.py",
+      snippet: "print(1)",
+      language: "python",
+      symbols: undefined,
+    });
+    expect(escape.snippet).toBeUndefined();
+    expect(escape.note).toBe(
+      "Code not loaded: escape.txt is outside the allowed workspace roots",
+    );
+  });
+
+  test("stops loading once the total byte limit is reached", async () => {
+    const resolver = new CodeContextResolver(options({ maxTotalBytes: 30 }));
+    const context = await resolver.resolve({
+      type: "codeContext",
+      version: "1.0",
+      files: [{ path: "lines.txt" }, { path: "lines.txt" }],
+    });
+
+    expect(context.files![0].snippet).toBe("one\ntwo\nthree\nfour\nfive");
+    expect(context.files![1].note).toBe(
+      "Code not loaded: the code context limit of 30 bytes was reached",
+    );
+  });
+});
@@ -0,0 +1,265 @@
+// src/modules/code/resolver.ts
+import { realpathSync } from "fs";
+import { readFile, realpath, stat } from "fs/promises";
+import { extname, isAbsolute, join, relative, resolve, sep } from "path";
+import type { ReasonConfig } from "../config";
+import type { CodeContext, GitSource } from "./context";
+import { collectGitChanges } from "./git";
+import { isIndexedSource, listFileSymbols } from "./symbols";
+
+export type WorkspaceOptions = ReasonConfig["workspace"];
+
+type CodeContextFile = NonNullable<CodeContext["files"]>[number];
+
+// Most symbols listed for one file
+const MAX_FILE_SYMBOLS = 50;
+
+const LANGUAGES: Record<string, string> = {
+  ".ts": "typescript",
+  ".tsx": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".js": "javascript",
+  ".jsx": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".py": "python",
+  ".rs": "rust",
+  ".go": "go",
+  ".java": "java",
+  ".kt": "kotlin",
+  ".rb": "ruby",
+  ".php": "php",
+  ".cs": "csharp",
+  ".c": "c",
+  ".h": "c",
+  ".cpp": "cpp",
+  ".cc": "cpp",
+  ".hpp": "cpp",
+  ".swift": "swift",
+  ".scala": "scala",
+  ".sh": "bash",
+  ".bash": "bash",
+  ".sql": "sql",
+  ".json": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".toml": "toml",
+  ".md": "markdown",
+  ".html": "html",
+  ".css": "css",
+  ".scss": "scss",
+  ".vue": "vue",
+  ".svelte": "svelte",
+};
+
+// Language name for a code fence, from the file extension
+export function inferLanguage(path: string): string | undefined {
+  return LANGUAGES[extname(path).toLowerCase()];
+}
+
+// Loads the code of path-only code context files from the workspace roots
+export class CodeContextResolver {
+  private roots: string[];
+  private maxFileBytes: number;
+  private maxLines: number;
+  private maxTotalBytes: number;
+
+  constructor(options: WorkspaceOptions) {
+    // Compare real paths so symlinks cannot lead out of a root
+    this.roots = options.roots.map((root) => {
+      try {
+        return realpathSync(resolve(root));
+      } catch {
+        return resolve(root);
+      }
+    });
+    this.maxFileBytes = options.maxFileBytes;
+    this.maxLines = options.maxLines;
+    this.maxTotalBytes = options.maxTotalBytes;
+  }
+
+  // Fill in snippets, languages, symbols and git changes; anything that cannot be read keeps its
+  // reference and gets a note saying why
+  public async resolve(context: CodeContext): Promise<CodeContext> {
+    let remainingBytes = this.maxTotalBytes;
+    const files: CodeContextFile[] = [];
+
+    for (const file of context.files ?? []) {
+      const language = file.language ?? inferLanguage(file.path);
+      if (file.snippet !== undefined) {
+        files.push({ ...file, language, symbols: await this.findSymbols(file) });
+        continue;
+      }
+
+      try {
+        const loaded = await this.readLines(file);
+        const bytes = Buffer.byteLength(loaded.snippet);
+        if (bytes > remainingBytes) {
+          throw new Error(
+            `the code context limit of ${this.maxTotalBytes} bytes was reached`,
+          );
+        }
+        remainingBytes -= bytes;
+        const resolved = { ...file, language, ...loaded };
+        files.push({ ...resolved, symbols: await this.findSymbols(resolved) });
+      } catch (error) {
+        files.push({
+          ...file,
+          language,
+          note: `Code not loaded: ${(error as Error).message ?? error}`,
+        });
+      }
+    }
+
+    return {
+      ...context,
+      files: context.files ? files : undefined,
+      git: context.git ? await this.resolveGit(context.git) : undefined,
+    };
+  }
+
+  private async resolveGit(git: GitSource): Promise<GitSource> {
+    if (git.changes) return git;
+
+    try {
+      const repository = await this.locate(git.repository ?? ".", true);
+      return {
+        ...git,
+        changes: await collectGitChanges(repository, git, this.maxTotalBytes),
+      };
+    } catch (error) {
+      return {
+        ...git,
+        note: `Changes not collected: ${(error as Error).message ?? error}`,
+      };
+    }
+  }
+
+  // Lines of a workspace file, trimmed to the line limit
+  public async readLines(
+    file: Pick<CodeContextFile, "path" | "startLine" | "endLine">,
+  ): Promise<{
+    snippet: string;
+    startLine: number;
+    endLine: number;
+    note?: string;
+  }> {
+    const path = await this.locate(file.path);
+    const stats = await stat(path);
+    if (!stats.isFile()) {
+      throw new Error(`${file.path} is not a file`);
+    }
+    if (stats.size > this.maxFileBytes) {
+      throw new Error(
+        `${file.path} is ${stats.size} bytes, above the ${this.maxFileBytes} byte limit`,
+      );
+    }
+
+    const text = await readFile(path, "utf-8");
+    if (text.includes("\0")) {
+      throw new Error(`${file.path} looks like a binary file`);
+    }
+
+    const lines = text.replace(/\r?\n$/, "").split(/\r?\n/);
+    const startLine = Math.max(1, file.startLine ?? 1);
+    if (startLine > lines.length) {
+      throw new Error(
+        `line ${startLine} is past the end of ${file.path} (${lines.length} lines)`,
+      );
+    }
+    const requestedEnd = Math.min(
+      lines.length,
+      file.endLine ?? startLine + this.maxLines - 1,
+    );
+    const endLine = Math.min(requestedEnd, startLine + this.maxLines - 1);
+
+    return {
+      snippet: lines.slice(startLine - 1, endLine).join("\n"),
+      startLine,
+      endLine,
+      note:
+        endLine < requestedEnd
+          ? `Trimmed to the first ${this.maxLines} lines of the requested range`
+          : undefined,
+    };
+  }
+
+  // Declarations within the file's line range, when the caller did not list any
+  private async findSymbols(
+    file: CodeContextFile,
+  ): Promise<CodeContextFile["symbols"]> {
+    if (file.symbols || !isIndexedSource(file.path)) return file.symbols;
+
+    try {
+      const definitions = await listFileSymbols(
+        await this.locate(file.path),
+        file.path,
+      );
+      const symbols = definitions
+        .filter(
+          (definition) =>
+            (file.startLine === undefined || definition.endLine >= file.startLine) &&
+            (file.endLine === undefined || definition.line <= file.endLine),
+        )
+        .slice(0, MAX_FILE_SYMBOLS)
+        .map((definition) => ({
+          name: definition.container
+            ? `${definition.container}.${definition.name}`
+            : definition.name,
+          type: definition.kind,
+          line: definition.line,
+        }));
+      return symbols.length > 0 ? symbols : undefined;
+    } catch {
+      // Symbols are a convenience; the code itself is already in place
+      return undefined;
+    }
+  }
+
+  // Real path of a workspace file; absolute paths must lie inside a root, relative ones are
+  // looked up in each root in turn. Directories may also be a root itself
+  public async locate(path: string, directory: boolean = false): Promise<string> {
+    if (this.roots.length === 0) {
+      throw new Error("no workspace roots are configured");
+    }
+
+    const candidates = isAbsolute(path)
+      ? [path]
+      : this.roots.map((root) => join(root, path));
+    for (const candidate of candidates) {
+      let real: string;
+      try {
+        real = await realpath(candidate);
+      } catch {
+        continue;
+      }
+      if (!this.isInsideRoots(real, directory)) {
+        throw new Error(`${path} is outside the allowed workspace roots`);
+      }
+      return real;
+    }
+
+    throw new Error(`${path} was not found in the workspace roots`);
+  }
+
+  // Path of a located file or directory relative to the root holding it
+  public relativeToRoot(path: string): string {
+    for (const root of this.roots) {
+      const fromRoot = relative(root, path);
+      if (fromRoot.split(sep)[0] !== ".." && !isAbsolute(fromRoot)) return fromRoot;
+    }
+    return path;
+  }
+
+  private isInsideRoots(path: string, allowRoot: boolean): boolean {
+    return this.roots.some((root) => {
+      const fromRoot = relative(root, path);
+      return (
+        (allowRoot || fromRoot !== "") &&
+        fromRoot.split(sep)[0] !== ".." &&
+        !isAbsolute(fromRoot)
+      );
+    });
+  }
+}
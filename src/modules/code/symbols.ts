@@ -0,0 +1,485 @@
+// src/modules/code/symbols.ts
+import { readFile, readdir, stat } from "fs/promises";
+import { extname, join, relative, resolve } from "path";
+import { z } from "zod";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { WorkspaceOptions } from "./resolver";
+
+type TypeScript = typeof import("typescript");
+type Node = import("typescript").Node;
+type SourceFile = import("typescript").SourceFile;
+
+// Files the index parses
+const SOURCE_EXTENSIONS = new Set([
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+]);
+
+// Directories never walked; dot-directories are skipped as well
+export const IGNORED_DIRECTORIES = new Set([
+  "node_modules",
+  "dist",
+  "build",
+  "out",
+  "coverage",
+]);
+
+// Lookups within this long of the last one reuse the index without checking files again
+const REFRESH_INTERVAL_MS = 5000;
+
+const MAX_SIGNATURE_LENGTH = 300;
+
+export type SymbolDefinition = {
+  name: string;
+  kind: string;
+  path: string; // Relative to its workspace root
+  line: number;
+  endLine: number;
+  exported: boolean;
+  container?: string; // Enclosing class, interface or namespace
+  signature?: string; // Declaration header of exported symbols
+};
+
+type IndexedFile = {
+  path: string;
+  displayPath: string;
+  mtimeMs: number;
+  size: number;
+  definitions: SymbolDefinition[];
+  // Lines each identifier appears on
+  identifiers: Map<string, number[]>;
+};
+
+let typescript: Promise<TypeScript> | undefined;
+
+// The compiler is only loaded once code is actually indexed
+function loadTypeScript(): Promise<TypeScript> {
+  typescript ??= import("typescript")
+    .then((module) => ((module as { default?: TypeScript }).default ?? module) as TypeScript)
+    .catch((error) => {
+      typescript = undefined;
+      throw new Error(`The symbol index needs the typescript package: ${error}`);
+    });
+  return typescript;
+}
+
+export function isIndexedSource(path: string): boolean {
+  return SOURCE_EXTENSIONS.has(extname(path).toLowerCase());
+}
+
+const collapse = (text: string): string => {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > MAX_SIGNATURE_LENGTH
+    ? `${line.slice(0, MAX_SIGNATURE_LENGTH)}…`
+    : line;
+};
+
+// Definitions and identifier occurrences of one parsed file. Only the syntax is read, so
+// references are matched by name rather than by resolved symbol
+function scanSourceFile(
+  ts: TypeScript,
+  source: SourceFile,
+  path: string,
+): Pick<IndexedFile, "definitions" | "identifiers"> {
+  const definitions: SymbolDefinition[] = [];
+  const identifiers = new Map<string, number[]>();
+  const exportedNames = new Set<string>();
+  const lineOf = (position: number) =>
+    source.getLineAndCharacterOfPosition(position).line + 1;
+
+  // Header text up to where the body starts
+  const headerOf = (node: Node, bodyStart?: number) =>
+    collapse(source.text.slice(node.getStart(source), bodyStart ?? node.getEnd()));
+
+  const describe = (
+    node: Node,
+  ): { name: string; kind: string; signature: string } | undefined => {
+    if (ts.isFunctionDeclaration(node) && node.name) {
+      return {
+        name: node.name.text,
+        kind: "function",
+        signature: headerOf(node, node.body?.getStart(source)),
+      };
+    }
+    if (ts.isClassDeclaration(node) && node.name) {
+      return {
+        name: node.name.text,
+        kind: "class",
+        signature: headerOf(node, node.members.pos).replace(/\s*\{$/, ""),
+      };
+    }
+    if (ts.isInterfaceDeclaration(node)) {
+      return { name: node.name.text, kind: "interface", signature: headerOf(node) };
+    }
+    if (ts.isTypeAliasDeclaration(node)) {
+      return { name: node.name.text, kind: "type", signature: headerOf(node) };
+    }
+    if (ts.isEnumDeclaration(node)) {
+      return { name: node.name.text, kind: "enum", signature: headerOf(node) };
+    }
+    if (ts.isModuleDeclaration(node) && ts.isIdentifier(node.name)) {
+      return {
+        name: node.name.text,
+        kind: "namespace",
+        signature: headerOf(node, node.body?.getStart(source)),
+      };
+    }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      const initializer = node.initializer;
+      const isFunction =
+        initializer &&
+        (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+      return {
+        name: node.name.text,
+        kind: isFunction ? "function" : "variable",
+        signature: isFunction
+          ? headerOf(node, initializer.body.getStart(source))
+          : headerOf(node, node.type ? node.type.getEnd() : node.name.getEnd()),
+      };
+    }
+    if (
+      (ts.isMethodDeclaration(node) || ts.isMethodSignature(node)) &&
+      ts.isIdentifier(node.name)
+    ) {
+      return {
+        name: node.name.text,
+        kind: "method",
+        signature: headerOf(
+          node,
+          ts.isMethodDeclaration(node) ? node.body?.getStart(source) : undefined,
+        ),
+      };
+    }
+    if (
+      (ts.isPropertyDeclaration(node) || ts.isPropertySignature(node)) &&
+      ts.isIdentifier(node.name)
+    ) {
+      return { name: node.name.text, kind: "property", signature: headerOf(node) };
+    }
+    return undefined;
+  };
+
+  const isExported = (node: Node): boolean => {
+    const declaration = ts.isVariableDeclaration(node)
+      ? node.parent.parent
+      : node;
+    return (
+      ts.canHaveModifiers(declaration) &&
+      (ts.getModifiers(declaration) ?? []).some(
+        (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword,
+      )
+    );
+  };
+
+  // Declarations inside function bodies are locals and stay out of the index
+  const visit = (node: Node, container: string | undefined, inBody: boolean) => {
+    if (ts.isIdentifier(node)) {
+      const line = lineOf(node.getStart(source));
+      const lines = identifiers.get(node.text) ?? [];
+      if (lines[lines.length - 1] !== line) lines.push(line);
+      identifiers.set(node.text, lines);
+    }
+    if (ts.isExportSpecifier(node) && !node.parent.parent.moduleSpecifier) {
+      exportedNames.add((node.propertyName ?? node.name).text);
+    }
+    if (ts.isExportAssignment(node) && ts.isIdentifier(node.expression)) {
+      exportedNames.add(node.expression.text);
+    }
+
+    const described = inBody ? undefined : describe(node);
+    if (described) {
+      definitions.push({
+        name: described.name,
+        kind: described.kind,
+        path,
+        line: lineOf(node.getStart(source)),
+        endLine: lineOf(node.getEnd()),
+        exported: container === undefined && isExported(node),
+        container,
+        signature: described.signature,
+      });
+    }
+
+    const opensScope =
+      ts.isClassDeclaration(node) ||
+      ts.isInterfaceDeclaration(node) ||
+      ts.isModuleDeclaration(node);
+    const childInBody =
+      inBody ||
+      (!opensScope &&
+        (ts.isFunctionLike(node) ||
+          (ts.isVariableDeclaration(node) && !!node.initializer)));
+    ts.forEachChild(node, (child) =>
+      visit(child, opensScope && described ? described.name : container, childInBody),
+    );
+  };
+  visit(source, undefined, false);
+
+  // Signatures are only kept where other modules can see them
+  for (const definition of definitions) {
+    if (!definition.container && exportedNames.has(definition.name)) {
+      definition.exported = true;
+    }
+    if (!definition.exported) delete definition.signature;
+  }
+
+  return { definitions, identifiers };
+}
+
+// Parse one file; used to list the symbols of a code context file without indexing the workspace
+export async function listFileSymbols(
+  path: string,
+  displayPath: string,
+): Promise<SymbolDefinition[]> {
+  const ts = await loadTypeScript();
+  const text = await readFile(path, "utf-8");
+  const source = ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true);
+  return scanSourceFile(ts, source, displayPath).definitions;
+}
+
+// Name-based index of the TypeScript and JavaScript files under the workspace roots. Files are
+// parsed on first use and re-parsed when they change on disk
+export class SymbolIndex {
+  private roots: string[];
+  private maxFileBytes: number;
+  private maxFiles: number;
+  private maxLines: number;
+  private files: Map<string, IndexedFile> = new Map();
+  private refreshedAt = 0;
+  private refreshing?: Promise<void>;
+
+  constructor(options: WorkspaceOptions) {
+    this.roots = options.roots.map((root) => resolve(root));
+    this.maxFileBytes = options.maxFileBytes;
+    this.maxFiles = options.maxIndexFiles;
+    this.maxLines = options.maxLines;
+  }
+
+  public async find(
+    name: string,
+    options: { kind?: string; includeReferences?: boolean; maxResults?: number } = {},
+  ): Promise<{
+    symbol: string;
+    definitions: Array<SymbolDefinition & { code: string }>;
+    references: Array<{ path: string; line: number; text: string }>;
+    totalReferences: number;
+    indexedFiles: number;
+  }> {
+    await this.refresh();
+    const maxResults = options.maxResults ?? 20;
+
+    const matches = [...this.files.values()].flatMap((file) =>
+      file.definitions
+        .filter(
+          (definition) =>
+            definition.name === name &&
+            (!options.kind || definition.kind === options.kind),
+        )
+        .map((definition) => ({ file, definition })),
+    );
+    // Exported top-level definitions are the likeliest answer
+    matches.sort(
+      (a, b) =>
+        Number(b.definition.exported) - Number(a.definition.exported) ||
+        Number(!!a.definition.container) - Number(!!b.definition.container),
+    );
+
+    const definitions = await Promise.all(
+      matches.slice(0, maxResults).map(async ({ file, definition }) => {
+        const lines = await this.readLines(file.path);
+        const endLine = Math.min(
+          definition.endLine,
+          definition.line + this.maxLines - 1,
+        );
+        const code = lines.slice(definition.line - 1, endLine).join("\n");
+        return {
+          ...definition,
+          code: endLine < definition.endLine ? `${code}\n…` : code,
+        };
+      }),
+    );
+
+    const references: Array<{ path: string; line: number; text: string }> = [];
+    let totalReferences = 0;
+    if (options.includeReferences ?? true) {
+      for (const file of this.files.values()) {
+        const definitionLines = new Set(
+          file.definitions
+            .filter((definition) => definition.name === name)
+            .map((definition) => definition.line),
+        );
+        const lines = (file.identifiers.get(name) ?? []).filter(
+          (line) => !definitionLines.has(line),
+        );
+        totalReferences += lines.length;
+        if (lines.length === 0 || references.length >= maxResults) continue;
+
+        const text = await this.readLines(file.path);
+        for (const line of lines.slice(0, maxResults - references.length)) {
+          references.push({
+            path: file.displayPath,
+            line,
+            text: text[line - 1]?.trim() ?? "",
+          });
+        }
+      }
+    }
+
+    return {
+      symbol: name,
+      definitions,
+      references,
+      totalReferences,
+      indexedFiles: this.files.size,
+    };
+  }
+
+  // Re-walk the roots and re-parse files that changed since the last lookup
+  private async refresh(): Promise<void> {
+    if (this.roots.length === 0) {
+      throw new Error("No workspace roots are configured");
+    }
+    if (Date.now() - this.refreshedAt < REFRESH_INTERVAL_MS) return;
+
+    this.refreshing ??= (async () => {
+      const ts = await loadTypeScript();
+      const seen = new Set<string>();
+
+      for (const root of this.roots) {
+        for await (const path of this.walk(root)) {
+          if (seen.size >= this.maxFiles) break;
+          seen.add(path);
+
+          const stats = await stat(path).catch(() => undefined);
+          if (!stats || stats.size > this.maxFileBytes) continue;
+          const cached = this.files.get(path);
+          if (cached?.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+            continue;
+          }
+
+          const text = await readFile(path, "utf-8").catch(() => undefined);
+          if (text === undefined) continue;
+          const source = ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true);
+          const displayPath = relative(root, path);
+          this.files.set(path, {
+            path,
+            displayPath,
+            mtimeMs: stats.mtimeMs,
+            size: stats.size,
+            ...scanSourceFile(ts, source, displayPath),
+          });
+        }
+      }
+
+      for (const path of this.files.keys()) {
+        if (!seen.has(path)) this.files.delete(path);
+      }
+      this.refreshedAt = Date.now();
+    })().finally(() => {
+      this.refreshing = undefined;
+    });
+
+    return this.refreshing;
+  }
+
+  // Source files under a directory, leaving out dotfiles and dot-directories; symlinks are not
+  // followed so the walk stays inside the root
+  private async *walk(directory: string): AsyncGenerator<string> {
+    const entries = await readdir(directory, { withFileTypes: true }).catch(
+      () => [],
+    );
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+        yield* this.walk(path);
+      } else if (entry.isFile() && isIndexedSource(entry.name)) {
+        yield path;
+      }
+    }
+  }
+
+  private async readLines(path: string): Promise<string[]> {
+    return (await readFile(path, "utf-8").catch(() => "")).split(/\r?\n/);
+  }
+}
+
+export const FindSymbolSchema = z.object({
+  name: z.string().min(1).describe("Symbol name, matched exactly"),
+  kind: z
+    .enum([
+      "function",
+      "class",
+      "interface",
+      "type",
+      "enum",
+      "namespace",
+      "variable",
+      "method",
+      "property",
+    ])
+    .optional()
+    .describe("Only return definitions of this kind"),
+  includeReferences: z
+    .boolean()
+    .default(true)
+    .describe("Also list the lines where the name is used, including same-named identifiers elsewhere"),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(20)
+    .describe("Most definitions and references returned"),
+});
+
+// Tool definition
+export const FIND_SYMBOL_TOOL: Tool = {
+  name: "find-symbol",
+  description:
+    "Look up a TypeScript or JavaScript symbol in the configured workspace roots. Returns its definitions with their code and, for exported symbols, their signatures, plus the lines that use the name. Use it to answer symbol_definition and code_retrieval tool requests and pass the result back via externalToolResult. Files are only parsed, not type-checked, so references are matched by name and include same-named identifiers from other scopes and modules.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Symbol name, matched exactly",
+      },
+      kind: {
+        type: "string",
+        enum: [
+          "function",
+          "class",
+          "interface",
+          "type",
+          "enum",
+          "namespace",
+          "variable",
+          "method",
+          "property",
+        ],
+        description: "Only return definitions of this kind",
+      },
+      includeReferences: {
+        type: "boolean",
+        default: true,
+        description: "Also list the lines where the name is used, including same-named identifiers elsewhere",
+      },
+      maxResults: {
+        type: "integer",
+        minimum: 1,
+        maximum: 100,
+        default: 20,
+        description: "Most definitions and references returned",
+      },
+    },
+    required: ["name"],
+  },
+};
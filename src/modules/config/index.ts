@@ -0,0 +1,330 @@
+// src/modules/config/index.ts
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join, resolve } from "path";
+import { z } from "zod";
+
+export const ModelProfileSchema = z.object({
+  provider: z
+    .enum(["openrouter", "ollama", "gemini"])
+    .describe("Which provider implementation serves this profile"),
+  model: z.string().describe("Model id passed to the provider"),
+  baseURL: z
+    .string()
+    .optional()
+    .describe("Provider endpoint, e.g. an OpenAI-compatible base URL or Ollama host"),
+  apiKeyEnv: z
+    .string()
+    .optional()
+    .describe("Environment variable holding the API key for this profile"),
+  temperature: z.number().min(0).max(2).default(1),
+  maxTokens: z.number().int().positive().default(64000),
+  contextTokens: z
+    .number()
+    .int()
+    .positive()
+    .default(32000)
+    .describe("Token budget for the assembled prompt context"),
+  timeoutMs: z
+    .number()
+    .int()
+    .positive()
+    .default(600000)
+    .describe("Abort generation after this long and keep the partial output"),
+  fallbacks: z
+    .array(z.string())
+    .default([])
+    .describe("Profiles tried in order when this profile's model keeps failing"),
+  promptTemplate: z
+    .string()
+    .default("default")
+    .describe("Prompt template this profile renders its thoughts from"),
+  enabled: z
+    .boolean()
+    .default(true)
+    .describe("Whether the profile takes part when modelType is 'all'"),
+});
+
+export const ReasoningModeSchema = z.object({
+  description: z.string().describe("One line telling clients when to pick this mode"),
+  systemPrompt: z.string().describe("System prompt that sets the model's stance"),
+  steps: z
+    .array(
+      z.object({
+        title: z.string(),
+        instruction: z.string(),
+      }),
+    )
+    .min(1)
+    .describe("Steps the model works through in every thought, in order"),
+  sections: z
+    .array(z.string())
+    .default([])
+    .describe("Headings the answer is organized under"),
+});
+
+// Names local tools skip unless the config says otherwise: dotfiles like .env, keys and SSH keys
+export const DEFAULT_IGNORED_NAMES = [".*", "*.pem", "*.key", "*.p12", "*.pfx", "id_*"];
+
+export const ReasonConfigSchema = z.object({
+  profiles: z
+    .record(ModelProfileSchema)
+    .describe("Named model profiles selectable through modelType"),
+  context: z
+    .object({
+      recentThoughts: z
+        .number()
+        .int()
+        .min(0)
+        .default(2)
+        .describe("Most recent lineage thoughts kept verbatim; older ones are summarized"),
+    })
+    .default({}),
+  retry: z
+    .object({
+      maxRetries: z
+        .number()
+        .int()
+        .min(0)
+        .default(3)
+        .describe("Retries per model for rate limits, server and network errors"),
+      baseDelayMs: z
+        .number()
+        .int()
+        .positive()
+        .default(1000)
+        .describe("First backoff delay; doubled on every further retry"),
+      maxDelayMs: z
+        .number()
+        .int()
+        .positive()
+        .default(30000)
+        .describe("Longest wait before a retry; longer Retry-After values skip to the fallback"),
+    })
+    .default({}),
+  synthesis: z
+    .object({
+      judge: z
+        .string()
+        .optional()
+        .describe(
+          "Profile that merges multi-model outputs when synthesize is set; defaults to the first selected profile",
+        ),
+    })
+    .default({}),
+  debate: z
+    .object({
+      rounds: z
+        .number()
+        .int()
+        .min(1)
+        .max(5)
+        .default(2)
+        .describe("Rebuttal rounds after the opening positions in debate strategy"),
+    })
+    .default({}),
+  prompts: z
+    .object({
+      directory: z
+        .string()
+        .optional()
+        .describe("Directory of extra .md prompt templates; a file named like a built-in template replaces it"),
+    })
+    .default({}),
+  modes: z
+    .record(
+      z
+        .string()
+        .regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, digits and dashes"),
+      ReasoningModeSchema,
+    )
+    .default({})
+    .describe("Custom reasoning modes selectable through reasoningMode; a built-in name replaces that mode"),
+  selfConsistency: z
+    .object({
+      concurrency: z
+        .number()
+        .int()
+        .positive()
+        .default(3)
+        .describe("Samples generated at the same time per profile when samples is set"),
+      similarityThreshold: z
+        .number()
+        .min(0)
+        .max(1)
+        .default(0.35)
+        .describe("Term overlap at which two sampled conclusions count as agreeing"),
+    })
+    .default({}),
+  workspace: z
+    .object({
+      roots: z
+        .array(z.string())
+        .default(
+          process.env.ADVANCED_REASON_WORKSPACE
+            ? [process.env.ADVANCED_REASON_WORKSPACE]
+            : [],
+        )
+        .describe("Directories code context files may be read from; any other path is refused"),
+      maxFileBytes: z
+        .number()
+        .int()
+        .positive()
+        .default(512000)
+        .describe("Largest file read to fill in a code context snippet"),
+      maxLines: z
+        .number()
+        .int()
+        .positive()
+        .default(400)
+        .describe("Most lines taken from one file"),
+      maxTotalBytes: z
+        .number()
+        .int()
+        .positive()
+        .default(200000)
+        .describe("Most code read for one code context across all its files"),
+      maxIndexFiles: z
+        .number()
+        .int()
+        .positive()
+        .default(5000)
+        .describe("Most TypeScript and JavaScript files parsed into the symbol index"),
+    })
+    .default({}),
+  localTools: z
+    .object({
+      enabled: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Let the server run the read-only tools models ask for (grep, read_file, list_directory, find_symbol) under the workspace roots; runLocalTools overrides it per call",
+        ),
+      maxRounds: z
+        .number()
+        .int()
+        .min(1)
+        .max(5)
+        .default(2)
+        .describe("Tool rounds per thought; each round runs the requested tools and generates again"),
+      maxOutputBytes: z
+        .number()
+        .int()
+        .positive()
+        .default(8000)
+        .describe("Largest output of one tool run fed back to the model"),
+      maxMatches: z
+        .number()
+        .int()
+        .positive()
+        .default(50)
+        .describe("Most matching lines grep returns"),
+      ignore: z
+        .array(z.string())
+        .default(DEFAULT_IGNORED_NAMES)
+        .describe(
+          "File and directory names local tools never read, list or search, where * matches any characters; covers dotfiles such as .env and key files by default",
+        ),
+    })
+    .default({}),
+  sessions: z
+    .object({
+      ttlMinutes: z
+        .number()
+        .positive()
+        .default(60)
+        .describe("Idle time after which a reasoning session leaves memory"),
+      persist: z
+        .boolean()
+        .default(true)
+        .describe("Whether sessions are persisted to storageDir"),
+      storageDir: z
+        .string()
+        .default(
+          process.env.ADVANCED_REASON_STORAGE_DIR ??
+            join(homedir(), ".advanced-reason-mcp", "sessions"),
+        )
+        .describe("Directory holding one JSON snapshot per session"),
+    })
+    .default({}),
+}).superRefine((config, ctx) => {
+  if (config.synthesis.judge && !config.profiles[config.synthesis.judge]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["synthesis", "judge"],
+      message: `Unknown profile '${config.synthesis.judge}'`,
+    });
+  }
+
+  // Fallbacks must name other existing profiles
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    profile.fallbacks.forEach((fallback, index) => {
+      if (fallback === name || !config.profiles[fallback]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["profiles", name, "fallbacks", index],
+          message:
+            fallback === name
+              ? "A profile cannot fall back to itself"
+              : `Unknown profile '${fallback}'`,
+        });
+      }
+    });
+  }
+});
+
+export type ModelProfile = z.infer<typeof ModelProfileSchema>;
+export type ReasoningMode = z.infer<typeof ReasoningModeSchema>;
+export type ReasonConfig = z.infer<typeof ReasonConfigSchema>;
+
+// Profiles used when no config file is present, matching the original hardcoded setup
+export const DEFAULT_PROFILES: Record<string, z.input<typeof ModelProfileSchema>> = {
+  gemini: {
+    provider: "openrouter",
+    model: "google/gemini-2.5-pro-exp-03-25:free",
+  },
+  deepseek: {
+    provider: "openrouter",
+    model: process.env.OPENROUTER_MODEL ?? "deepseek/deepseek-r1:free",
+  },
+  ollama: {
+    provider: "ollama",
+    model: process.env.OLLAMA_MODEL ?? "deepseek-r1:8b",
+    baseURL: process.env.OLLAMA_HOST,
+    enabled: false,
+  },
+};
+
+// Resolve the config file location, preferring the explicit env override
+export function getConfigPath(): string {
+  if (process.env.ADVANCED_REASON_CONFIG) {
+    return resolve(process.env.ADVANCED_REASON_CONFIG);
+  }
+  return join(homedir(), ".advanced-reason-mcp", "config.json");
+}
+
+// Load and validate the config file, falling back to the built-in profiles
+export function loadConfig(configPath: string = getConfigPath()): ReasonConfig {
+  let raw: Record<string, unknown> = {};
+
+  if (existsSync(configPath)) {
+    try {
+      raw = JSON.parse(readFileSync(configPath, "utf-8"));
+    } catch (error) {
+      throw new Error(`Failed to read config file ${configPath}: ${error}`);
+    }
+  }
+
+  const result = ReasonConfigSchema.safeParse({
+    ...raw,
+    profiles: raw.profiles ?? DEFAULT_PROFILES,
+  });
+
+  if (!result.success) {
+    throw new Error(
+      `Invalid config file ${configPath}: ${result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`,
+    );
+  }
+
+  return result.data;
+}
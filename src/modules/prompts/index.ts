@@ -0,0 +1,202 @@
+// src/modules/prompts/index.ts
+import { existsSync, readFileSync, readdirSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import { fileURLToPath } from "url";
+
+export const DEFAULT_TEMPLATE = "default";
+
+const TEMPLATE_EXTENSION = ".md";
+
+// Values a thought prompt template can reference as {{name}}
+export const PROMPT_PLACEHOLDERS = [
+  "originalQuery",
+  "currentThinking",
+  "thoughtNumber",
+  "totalThoughts",
+  "stage",
+  "intro",
+  "userContext",
+  "revision",
+  "debate",
+  "previousThoughts",
+  "externalToolResult",
+  "ending",
+  "modeName",
+  "modeSystemPrompt",
+  "modeInstructions",
+  "toolRequests",
+] as const;
+
+export type PromptPlaceholder = (typeof PROMPT_PLACEHOLDERS)[number];
+
+export type PromptValues = Record<PromptPlaceholder, string | number>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const SECTION_PATTERN = /^\[(system|user)\]\s*$/;
+
+// A thought prompt loaded from a template file
+export class PromptTemplate {
+  public readonly name: string;
+  public readonly version: string;
+  public readonly description?: string;
+  private system: string;
+  private user: string;
+
+  constructor(
+    name: string,
+    version: string,
+    system: string,
+    user: string,
+    description?: string,
+  ) {
+    this.name = name;
+    this.version = version;
+    this.system = system;
+    this.user = user;
+    this.description = description;
+  }
+
+  // Version id recorded on every thought generated from this template
+  get id(): string {
+    return `${this.name}@${this.version}`;
+  }
+
+  public render(values: PromptValues): {
+    systemPrompt: string;
+    userPrompt: string;
+  } {
+    // Lines holding only empty placeholders are dropped and the blank lines around them
+    // collapse; inserted values are never reformatted
+    const fill = (text: string) => {
+      const lines: string[] = [];
+      for (const line of text.split("\n")) {
+        const filled = line.replace(PLACEHOLDER_PATTERN, (_, name: PromptPlaceholder) =>
+          String(values[name]).trim(),
+        );
+        const onlyPlaceholders =
+          line !== filled && line.replace(PLACEHOLDER_PATTERN, "").trim() === "";
+        if (filled.trim() === "") {
+          const previous = lines[lines.length - 1];
+          if (onlyPlaceholders || previous === undefined || previous.trim() === "") {
+            continue;
+          }
+        }
+        lines.push(filled);
+      }
+      return lines.join("\n").trim();
+    };
+
+    return { systemPrompt: fill(this.system), userPrompt: fill(this.user) };
+  }
+}
+
+// Parse a template file: "key: value" header lines, then [system] and [user] sections
+export function parsePromptTemplate(name: string, source: string): PromptTemplate {
+  const header: Record<string, string> = {};
+  const sections: Record<string, string[]> = {};
+  let current: string[] | undefined;
+
+  for (const line of source.split(/\r?\n/)) {
+    const section = line.match(SECTION_PATTERN);
+    if (section) {
+      current = sections[section[1]] = [];
+    } else if (current) {
+      current.push(line);
+    } else if (line.trim()) {
+      const separator = line.indexOf(":");
+      if (separator === -1) {
+        throw new Error(`Prompt template '${name}': unexpected header line '${line}'`);
+      }
+      header[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  if (!header.version) {
+    throw new Error(`Prompt template '${name}' has no version header`);
+  }
+  if (!sections.user) {
+    throw new Error(`Prompt template '${name}' has no [user] section`);
+  }
+
+  const system = (sections.system ?? []).join("\n");
+  const user = sections.user.join("\n");
+
+  // Catch typos at load time rather than sending a literal {{placeholder}} to a model
+  for (const [, placeholder] of `${system}\n${user}`.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!(PROMPT_PLACEHOLDERS as readonly string[]).includes(placeholder)) {
+      throw new Error(
+        `Prompt template '${name}' uses unknown placeholder '{{${placeholder}}}'. Known placeholders: ${PROMPT_PLACEHOLDERS.join(", ")}`,
+      );
+    }
+  }
+
+  return new PromptTemplate(name, header.version, system, user, header.description);
+}
+
+// The prompts directory shipped with the package, found from the bundle or the sources
+function findBuiltinDirectory(): string {
+  let directory = dirname(fileURLToPath(import.meta.url));
+  for (let depth = 0; depth < 5; depth++) {
+    const candidate = join(directory, "prompts");
+    if (existsSync(join(candidate, `${DEFAULT_TEMPLATE}${TEMPLATE_EXTENSION}`))) {
+      return candidate;
+    }
+    directory = dirname(directory);
+  }
+  throw new Error("Built-in prompt templates not found; the package's prompts directory is missing");
+}
+
+function loadDirectory(directory: string): PromptTemplate[] {
+  return readdirSync(directory)
+    .filter((file) => extname(file) === TEMPLATE_EXTENSION)
+    .map((file) =>
+      parsePromptTemplate(
+        basename(file, TEMPLATE_EXTENSION),
+        readFileSync(join(directory, file), "utf-8"),
+      ),
+    );
+}
+
+// Built-in templates plus those in the configured directory, which win on name clashes
+export class PromptLibrary {
+  private templates: Map<string, PromptTemplate> = new Map();
+
+  constructor(templates: PromptTemplate[]) {
+    for (const template of templates) {
+      this.templates.set(template.name, template);
+    }
+  }
+
+  public static load(directory?: string): PromptLibrary {
+    const templates = loadDirectory(findBuiltinDirectory());
+    if (directory) {
+      if (!existsSync(directory)) {
+        throw new Error(`Prompt template directory ${directory} does not exist`);
+      }
+      templates.push(...loadDirectory(directory));
+    }
+    return new PromptLibrary(templates);
+  }
+
+  public names(): string[] {
+    return [...this.templates.keys()];
+  }
+
+  public get(name: string = DEFAULT_TEMPLATE): PromptTemplate {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new Error(
+        `Unknown prompt template '${name}'. Available templates: ${this.names().join(", ")}`,
+      );
+    }
+    return template;
+  }
+}
+
+let builtinLibrary: PromptLibrary | undefined;
+
+// Built-in templates only, for servers created without a configured library
+export function getBuiltinPrompts(): PromptLibrary {
+  builtinLibrary ??= PromptLibrary.load();
+  return builtinLibrary;
+}
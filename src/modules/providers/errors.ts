@@ -0,0 +1,144 @@
+// src/modules/providers/errors.ts
+import { classifyError } from "./retry";
+
+export type GenerationErrorKind =
+  | "auth"
+  | "rate_limit"
+  | "timeout"
+  | "context_overflow"
+  | "empty_response"
+  | "parse"
+  | "provider";
+
+// What the calling agent can do about each kind of failure
+const ERROR_ACTIONS: Record<GenerationErrorKind, string> = {
+  auth: "Check the API key in the profile's apiKeyEnv variable and the profile's baseURL; retrying will not help",
+  rate_limit:
+    "Wait at least retryAfterMs before calling again, or select another profile with modelType",
+  timeout:
+    "Retry with a narrower currentThinking, raise the profile's timeoutMs, or select a faster profile",
+  context_overflow:
+    "Shorten userContext or externalToolResult, or lower the profile's contextTokens, then retry",
+  empty_response:
+    "Retry the same call; if the model keeps returning nothing, select another profile",
+  parse:
+    "The provider sent a malformed response; retry or select another profile",
+  provider: "Retry later or select another profile with modelType",
+};
+
+const RETRYABLE_KINDS = new Set<GenerationErrorKind>([
+  "rate_limit",
+  "timeout",
+  "empty_response",
+  "parse",
+  "provider",
+]);
+
+const CONTEXT_OVERFLOW_PATTERN =
+  /context (length|window)|maximum context|too many tokens|token limit|prompt is too long|input token count/i;
+const AUTH_PATTERN =
+  /api key|apikey|unauthori[sz]ed|authentication|permission denied|forbidden/i;
+const TIMEOUT_PATTERN = /timed? ?out|ETIMEDOUT|deadline exceeded/i;
+
+// A failed generation, classified so the agent can decide how to react
+export class GenerationError extends Error {
+  public readonly kind: GenerationErrorKind;
+  public readonly profile?: string;
+  public readonly model?: string;
+  public readonly status?: number;
+  public readonly retryAfterMs?: number;
+  public readonly attempts: Array<{
+    profile: string;
+    model: string;
+    kind: GenerationErrorKind;
+    error: string;
+  }>;
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    details: {
+      profile?: string;
+      model?: string;
+      status?: number;
+      retryAfterMs?: number;
+      attempts?: GenerationError["attempts"];
+    } = {},
+  ) {
+    super(message);
+    this.name = "GenerationError";
+    this.kind = kind;
+    this.profile = details.profile;
+    this.model = details.model;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.attempts = details.attempts ?? [];
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+
+  get action(): string {
+    return ERROR_ACTIONS[this.kind];
+  }
+
+  // JSON body returned to the MCP client
+  toPayload(): Record<string, unknown> {
+    return {
+      error: this.message,
+      kind: this.kind,
+      retryable: this.retryable,
+      retryAfterMs: this.retryAfterMs,
+      profile: this.profile,
+      model: this.model,
+      httpStatus: this.status,
+      attempts: this.attempts.length > 0 ? this.attempts : undefined,
+      action: this.action,
+      status: "failed",
+    };
+  }
+}
+
+// Map a raw SDK or network error onto the taxonomy
+export function toGenerationError(
+  error: unknown,
+  source: { profile?: string; model?: string } = {},
+): GenerationError {
+  if (error instanceof GenerationError) return error;
+
+  const { status, retryAfterMs } = classifyError(error);
+  const message = String((error as Error)?.message ?? error);
+  const details = { ...source, status, retryAfterMs };
+
+  let kind: GenerationErrorKind = "provider";
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) {
+    kind = "auth";
+  } else if (status === 429) {
+    kind = "rate_limit";
+  } else if (CONTEXT_OVERFLOW_PATTERN.test(message)) {
+    kind = "context_overflow";
+  } else if (status === 408 || TIMEOUT_PATTERN.test(message)) {
+    kind = "timeout";
+  } else if (error instanceof SyntaxError) {
+    kind = "parse";
+  }
+
+  return new GenerationError(kind, message, details);
+}
+
+// MCP tool result for a failed generation
+export function toErrorResult(error: GenerationError): {
+  content: Array<{ type: string; text: string }>;
+  isError: boolean;
+} {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(error.toPayload(), null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
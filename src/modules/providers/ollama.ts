@@ -0,0 +1,125 @@
+import { Ollama } from "ollama";
+import {
+  BaseSequentialThinkingServer,
+  Completion,
+  ProviderOptions,
+  ThinkingOptions,
+} from "../sequential/base";
+import { GenerationError } from "./errors";
+
+// Matches a complete <think>...</think> block emitted by local reasoning models
+const THINK_BLOCK_PATTERN = /<think>([\s\S]*?)<\/think>/g;
+
+// Split local model output into its <think> reasoning and the final answer
+export const splitThinkBlocks = (
+  output: string,
+): { reasoning: string; content: string } => {
+  const reasoningParts: string[] = [];
+  let content = output.replace(THINK_BLOCK_PATTERN, (_, inner: string) => {
+    reasoningParts.push(inner.trim());
+    return "";
+  });
+
+  // A dangling <think> means generation stopped mid-reasoning
+  const openIndex = content.indexOf("<think>");
+  if (openIndex !== -1) {
+    reasoningParts.push(content.slice(openIndex + "<think>".length).trim());
+    content = content.slice(0, openIndex);
+  }
+
+  return {
+    reasoning: reasoningParts.filter((part) => part.length > 0).join("\n\n"),
+    content: content.trim(),
+  };
+};
+
+export class OllamaSequentialThinkingServer extends BaseSequentialThinkingServer {
+  private ollama: Ollama;
+
+  constructor(
+    private host: string = process.env.OLLAMA_HOST ?? "http://127.0.0.1:11434",
+    model: string = process.env.OLLAMA_MODEL ?? "deepseek-r1:8b",
+    options: ProviderOptions = {},
+  ) {
+    super(model, options);
+    this.ollama = new Ollama({ host });
+  }
+
+  // The client has no per-request signal option and its abort() stops every stream it owns,
+  // so a cancellable request gets its own client whose fetch carries the signal. That covers
+  // the wait for the first response as well as the stream itself
+  private clientFor(signal?: AbortSignal): Ollama {
+    if (!signal) return this.ollama;
+    return new Ollama({
+      host: this.host,
+      fetch: (input, init) =>
+        fetch(input, {
+          ...init,
+          signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal,
+        }),
+    });
+  }
+
+  protected async getCompletionWithReasoning(
+    systemPrompt: string,
+    userPrompt: string,
+    options: ThinkingOptions,
+  ): Promise<Completion> {
+    const reportProgress = this.createProgressReporter(options);
+    let rawOutput = "";
+
+    // Local reasoning models inline their chain of thought as <think> blocks
+    const collectOutput = (): Completion => {
+      const { reasoning, content } = splitThinkBlocks(rawOutput);
+      return { reasoning, answer: content };
+    };
+
+    try {
+      const stream = await this.clientFor(options.signal).chat({
+        model: this.model,
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt },
+        ],
+        stream: true,
+        options: {
+          temperature: this.temperature,
+          num_predict: this.maxTokens,
+        },
+      });
+
+      // Handle streaming response
+      for await (const chunk of stream) {
+        if (chunk.message?.content) {
+          rawOutput += chunk.message.content;
+
+          // Still inside an unclosed <think> block means the delta is reasoning
+          const inThinkBlock =
+            rawOutput.lastIndexOf("<think>") > rawOutput.lastIndexOf("</think>");
+          reportProgress(
+            inThinkBlock ? "reasoning" : "content",
+            chunk.message.content,
+          );
+        }
+      }
+
+      const output = collectOutput();
+
+      if (output.reasoning || output.answer) {
+        return output;
+      }
+
+      throw new GenerationError(
+        "empty_response",
+        `${this.model} returned no content`,
+      );
+    } catch (error) {
+      // Aborted streams keep what was generated before the stop
+      if (options.signal?.aborted) {
+        return collectOutput();
+      }
+      // Let the retry policy and fallbacks decide what happens next
+      throw error;
+    }
+  }
+}
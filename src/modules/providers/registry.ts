@@ -0,0 +1,164 @@
+// src/modules/providers/registry.ts
+import { z } from "zod";
+import type { ModelProfile, ReasonConfig } from "../config";
+import type { PromptLibrary, PromptTemplate } from "../prompts";
+import type { ReasoningSession } from "../session";
+import type {
+  BaseSequentialThinkingServer,
+  Completion,
+  ThinkingOptions,
+} from "../sequential/base";
+import { SequentialThinkingSchema } from "../sequential/utils";
+import { GeminiSequentialThinkingServer } from "./google-ai";
+import { OllamaSequentialThinkingServer } from "./ollama";
+import { OpenRouterSequentialThinkingServer } from "./openrouter";
+
+// Selecting this name fans out to every enabled profile
+export const ALL_PROFILES = "all";
+
+// Common surface every provider server exposes to the combined server
+export interface SequentialThinkingProvider {
+  processSequentialThinking(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    session: ReasoningSession,
+    options?: ThinkingOptions,
+  ): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }>;
+  runPrompt(
+    systemPrompt: string,
+    userPrompt: string,
+    options?: ThinkingOptions,
+  ): Promise<Completion & { model: string; truncated: boolean }>;
+}
+
+// Build the provider server backing a single profile
+export function createProvider(
+  name: string,
+  profile: ModelProfile,
+  context: ReasonConfig["context"],
+  retry: ReasonConfig["retry"],
+  promptTemplate?: PromptTemplate,
+): BaseSequentialThinkingServer {
+  const settings = {
+    profileName: name,
+    temperature: profile.temperature,
+    maxTokens: profile.maxTokens,
+    contextTokens: profile.contextTokens,
+    timeoutMs: profile.timeoutMs,
+    recentThoughts: context.recentThoughts,
+    retry,
+    promptTemplate,
+  };
+
+  switch (profile.provider) {
+    case "openrouter":
+      return new OpenRouterSequentialThinkingServer(
+        process.env[profile.apiKeyEnv ?? "OPENROUTER_API_KEY"] ?? "",
+        profile.model,
+        { ...settings, baseURL: profile.baseURL },
+      );
+    case "ollama":
+      return new OllamaSequentialThinkingServer(
+        profile.baseURL ?? process.env.OLLAMA_HOST ?? "http://127.0.0.1:11434",
+        profile.model,
+        settings,
+      );
+    case "gemini":
+      return new GeminiSequentialThinkingServer(
+        process.env[profile.apiKeyEnv ?? "GEMINI_API_KEY"] ?? "",
+        profile.model,
+        settings,
+      );
+  }
+}
+
+export class ProviderRegistry {
+  private profiles: Record<string, ModelProfile>;
+  private context: ReasonConfig["context"];
+  private retry: ReasonConfig["retry"];
+  private prompts?: PromptLibrary;
+  private providers: Map<string, BaseSequentialThinkingServer> = new Map();
+
+  constructor(
+    profiles: Record<string, ModelProfile>,
+    context: ReasonConfig["context"],
+    retry: ReasonConfig["retry"],
+    prompts?: PromptLibrary,
+  ) {
+    this.profiles = profiles;
+    this.context = context;
+    this.retry = retry;
+    this.prompts = prompts;
+
+    // Fail at startup rather than on the first thought from a misconfigured profile
+    for (const profile of Object.values(profiles)) {
+      prompts?.get(profile.promptTemplate);
+    }
+  }
+
+  public getProfileNames(): string[] {
+    return Object.keys(this.profiles);
+  }
+
+  public getProfile(name: string): ModelProfile | undefined {
+    return this.profiles[name];
+  }
+
+  // Expand a modelType selection into concrete profile names
+  public resolve(selection: string | string[]): string[] {
+    const requested = Array.isArray(selection) ? selection : [selection];
+    const names: string[] = [];
+
+    for (const name of requested) {
+      if (name === ALL_PROFILES) {
+        names.push(
+          ...Object.entries(this.profiles)
+            .filter(([, profile]) => profile.enabled)
+            .map(([profileName]) => profileName),
+        );
+      } else if (this.profiles[name]) {
+        names.push(name);
+      } else {
+        throw new Error(
+          `Unknown model profile '${name}'. Available profiles: ${this.getProfileNames().join(", ")}`,
+        );
+      }
+    }
+
+    const unique = [...new Set(names)];
+    if (unique.length === 0) {
+      throw new Error("No enabled model profiles matched the selection");
+    }
+    return unique;
+  }
+
+  // Providers are created lazily so unused profiles never open clients
+  public get(name: string): SequentialThinkingProvider {
+    return this.getServer(name);
+  }
+
+  private getServer(name: string): BaseSequentialThinkingServer {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      const profile = this.profiles[name];
+      if (!profile) {
+        throw new Error(`Unknown model profile '${name}'`);
+      }
+      provider = createProvider(
+        name,
+        profile,
+        this.context,
+        this.retry,
+        this.prompts?.get(profile.promptTemplate),
+      );
+      // Cache before resolving fallbacks so profiles that fall back to each other terminate
+      this.providers.set(name, provider);
+      provider.setFallbacks(
+        profile.fallbacks.map((fallback) => this.getServer(fallback)),
+      );
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import { GenerationError } from "./errors";
+import { classifyError, sleep, withRetry } from "./retry";
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`status ${status}`), { status, headers });
+
+describe("classifyError", () => {
+  test("retries rate limits, timeouts and server errors", () => {
+    expect(classifyError(httpError(429))).toEqual({
+      retryable: true,
+      status: 429,
+      retryAfterMs: undefined,
+    });
+    expect(classifyError(httpError(503)).retryable).toBe(true);
+    expect(classifyError(httpError(408)).retryable).toBe(true);
+    expect(classifyError(httpError(400)).retryable).toBe(false);
+    expect(classifyError(httpError(401)).retryable).toBe(false);
+  });
+
+  test("reads the status from ollama and genai errors", () => {
+    expect(classifyError({ status_code: 502 }).status).toBe(502);
+    expect(classifyError(new Error("got status: 500 Internal")).status).toBe(500);
+  });
+
+  test("reads Retry-After headers in milliseconds, seconds or as a date", () => {
+    expect(classifyError(httpError(429, { "retry-after-ms": "1500" })).retryAfterMs).toBe(1500);
+    expect(classifyError(httpError(429, { "retry-after": "2" })).retryAfterMs).toBe(2000);
+
+    const date = new Date(Date.now() + 60000).toUTCString();
+    const fromDate = classifyError(httpError(429, { "retry-after": date })).retryAfterMs!;
+    expect(fromDate).toBeGreaterThan(50000);
+    expect(fromDate).toBeLessThanOrEqual(60000);
+  });
+
+  test("retries transient network failures without a status", () => {
+    expect(classifyError(new Error("read ECONNRESET"))).toEqual({
+      retryable: true,
+      retryAfterMs: undefined,
+    });
+    expect(classifyError(new Error("invalid model")).retryable).toBe(false);
+  });
+});
+
+describe("sleep", () => {
+  test("resolves at once for an aborted signal", async () => {
+    const started = Date.now();
+    await sleep(10000, AbortSignal.abort());
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  test("resolves early once the signal aborts", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 10);
+    await sleep(10000, controller.signal);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe("withRetry", () => {
+  const policy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 };
+
+  // A call failing with the given errors in turn, then returning "done"
+  const failing = (...errors: unknown[]) => {
+    let calls = 0;
+    const call = async () => {
+      const error = errors[calls++];
+      if (error !== undefined) throw error;
+      return "done";
+    };
+    return { call, calls: () => calls };
+  };
+
+  test("retries retryable failures until the call succeeds", async () => {
+    const { call, calls } = failing(httpError(503), httpError(429));
+    const retries: number[] = [];
+
+    expect(await withRetry(call, policy, undefined, (attempt) => retries.push(attempt))).toBe(
+      "done",
+    );
+    expect(calls()).toBe(3);
+    expect(retries).toEqual([1, 2]);
+  });
+
+  test("gives up after maxRetries", async () => {
+    const { call, calls } = failing(httpError(503), httpError(503), httpError(503));
+    await expect(withRetry(call, policy)).rejects.toThrow("status 503");
+    expect(calls()).toBe(3);
+  });
+
+  test("does not retry permanent failures", async () => {
+    const { call, calls } = failing(httpError(400));
+    await expect(withRetry(call, policy)).rejects.toThrow("status 400");
+    expect(calls()).toBe(1);
+  });
+
+  test("follows the verdict of classified generation errors", async () => {
+    const empty = failing(new GenerationError("empty_response", "no content"));
+    expect(await withRetry(empty.call, policy)).toBe("done");
+    expect(empty.calls()).toBe(2);
+
+    const auth = failing(new GenerationError("auth", "bad key"));
+    await expect(withRetry(auth.call, policy)).rejects.toThrow("bad key");
+    expect(auth.calls()).toBe(1);
+  });
+
+  test("gives up when Retry-After asks for longer than maxDelayMs", async () => {
+    const { call, calls } = failing(httpError(429, { "retry-after": "60" }));
+    let retried = false;
+    await expect(withRetry(call, policy, undefined, () => (retried = true))).rejects.toThrow(
+      "status 429",
+    );
+    expect(calls()).toBe(1);
+    expect(retried).toBe(false);
+  });
+
+  test("stops waiting and rethrows once the signal aborts", async () => {
+    const { call, calls } = failing(httpError(503));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    const started = Date.now();
+
+    await expect(
+      withRetry(call, { maxRetries: 3, baseDelayMs: 5000, maxDelayMs: 10000 }, controller.signal),
+    ).rejects.toThrow("status 503");
+    expect(calls()).toBe(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
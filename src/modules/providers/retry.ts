@@ -0,0 +1,122 @@
+// src/modules/providers/retry.ts
+import type { ReasonConfig } from "../config";
+import { GenerationError } from "./errors";
+
+export type RetryPolicy = ReasonConfig["retry"];
+
+export type ErrorClassification = {
+  retryable: boolean;
+  status?: number;
+  retryAfterMs?: number;
+};
+
+// Statuses worth another attempt: timeouts, conflicts, rate limits and server errors
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+
+// Network failures that usually clear up on their own
+const TRANSIENT_ERROR_PATTERN =
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|EPIPE|socket hang up|fetch failed|network|connection error/i;
+
+// HTTP status carried by an SDK error: openai `status`, ollama `status_code`, genai message text
+function getStatus(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+  const { status, status_code } = error as {
+    status?: unknown;
+    status_code?: unknown;
+  };
+  if (typeof status === "number") return status;
+  if (typeof status_code === "number") return status_code;
+
+  const match = String((error as Error).message ?? "").match(
+    /got status: (\d{3})/,
+  );
+  return match ? Number(match[1]) : undefined;
+}
+
+// Delay requested by Retry-After style headers, in milliseconds
+function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: Record<string, string | null | undefined> })
+    ?.headers;
+  if (!headers || typeof headers !== "object") return undefined;
+
+  const retryAfterMs = Number(headers["retry-after-ms"]);
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs;
+
+  const retryAfter = headers["retry-after"];
+  if (!retryAfter) return undefined;
+
+  // Either a number of seconds or an HTTP date
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Decide whether a failed completion call is worth retrying
+export function classifyError(error: unknown): ErrorClassification {
+  const status = getStatus(error);
+  const retryAfterMs = getRetryAfterMs(error);
+
+  if (status !== undefined) {
+    return {
+      retryable: RETRYABLE_STATUSES.has(status) || status >= 500,
+      status,
+      retryAfterMs,
+    };
+  }
+
+  return {
+    retryable: TRANSIENT_ERROR_PATTERN.test(String(error)),
+    retryAfterMs,
+  };
+}
+
+// Resolve after a delay, or early once the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Run a call with exponential backoff on retryable failures. Retry-After wins over the
+// computed delay; a server asking for longer than maxDelayMs is given up on instead
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal,
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      // Errors the providers already classified, like empty responses, carry their own verdict
+      const { retryable, retryAfterMs } =
+        error instanceof GenerationError ? error : classifyError(error);
+      if (!retryable || attempt >= policy.maxRetries || signal?.aborted) {
+        throw error;
+      }
+
+      const backoffMs = Math.min(
+        policy.maxDelayMs,
+        policy.baseDelayMs * 2 ** attempt,
+      );
+      // Jitter keeps parallel profiles from retrying in lockstep
+      const delayMs =
+        retryAfterMs ?? Math.round(backoffMs / 2 + (Math.random() * backoffMs) / 2);
+      if (delayMs > policy.maxDelayMs) throw error;
+
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+      if (signal?.aborted) throw error;
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test";
+import {
+  findUncheckedTools,
+  findUnsupportedKeywords,
+  mergeAvailableTools,
+  validateJsonSchema,
+} from "./available-tools";
+
+describe("mergeAvailableTools", () => {
+  test("lets tools passed with the call replace registered ones of the same name", () => {
+    const merged = mergeAvailableTools(
+      [
+        { name: "search", description: "registered" },
+        { name: "fetch" },
+      ],
+      [{ name: "search", description: "per call" }, { name: "run" }],
+    );
+    expect(merged).toEqual([
+      { name: "search", description: "per call" },
+      { name: "fetch" },
+      { name: "run" },
+    ]);
+    expect(mergeAvailableTools()).toEqual([]);
+  });
+});
+
+describe("findUnsupportedKeywords", () => {
+  test("reports unsupported keywords with their paths in nested schemas", () => {
+    expect(
+      findUnsupportedKeywords({
+        type: "object",
+        allOf: [],
+        properties: {
+          query: { type: "string", not: { const: "" } },
+          items: { type: "array", items: { $ref: "#/defs/item" } },
+        },
+        additionalProperties: { patternProperties: {} },
+        anyOf: [{ if: {} }],
+      }),
+    ).toEqual([
+      "inputSchema.allOf",
+      "inputSchema.properties.query.not",
+      "inputSchema.properties.items.items.$ref",
+      "inputSchema.additionalProperties.patternProperties",
+      "inputSchema.anyOf[0].if",
+    ]);
+  });
+
+  test("accepts the keywords the validator checks", () => {
+    expect(
+      findUnsupportedKeywords({
+        type: "object",
+        properties: {
+          count: { type: "integer", exclusiveMinimum: 0, multipleOf: 2 },
+          tags: { type: "array", uniqueItems: true, items: { type: "string" } },
+        },
+        required: ["count"],
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("findUncheckedTools", () => {
+  test("lists only tools whose schema cannot be checked", () => {
+    expect(
+      findUncheckedTools([
+        { name: "plain", inputSchema: { type: "object" } },
+        { name: "none" },
+        { name: "linked", inputSchema: { $ref: "#/defs/args" } },
+      ]),
+    ).toEqual([{ name: "linked", unsupportedKeywords: ["inputSchema.$ref"] }]);
+  });
+});
+
+describe("validateJsonSchema", () => {
+  test("checks types, with integer narrower than number", () => {
+    expect(validateJsonSchema(1, { type: "integer" })).toEqual([]);
+    expect(validateJsonSchema(1.5, { type: "integer" })).toEqual([
+      "arguments: expected integer, got number",
+    ]);
+    expect(validateJsonSchema(null, { type: ["string", "null"] })).toEqual([]);
+    expect(validateJsonSchema([], { type: "object" })).toEqual([
+      "arguments: expected object, got array",
+    ]);
+  });
+
+  test("checks enum and const by value", () => {
+    expect(validateJsonSchema({ a: 1 }, { enum: [{ a: 1 }, "b"] })).toEqual([]);
+    expect(validateJsonSchema("c", { enum: ["a", "b"] })).toEqual([
+      'arguments: must be one of "a", "b"',
+    ]);
+    expect(validateJsonSchema(null, { const: null })).toEqual([]);
+    expect(validateJsonSchema(0, { const: null })).toEqual(["arguments: must equal null"]);
+  });
+
+  test("checks anyOf and oneOf", () => {
+    const anyOf = { anyOf: [{ type: "string" }, { type: "number" }] };
+    expect(validateJsonSchema(1, anyOf)).toEqual([]);
+    expect(validateJsonSchema(true, anyOf)).toEqual([
+      "arguments: matches none of the allowed schemas",
+    ]);
+
+    const oneOf = { oneOf: [{ type: "number" }, { type: "integer" }] };
+    expect(validateJsonSchema(1.5, oneOf)).toEqual([]);
+    expect(validateJsonSchema(2, oneOf)).toEqual([
+      "arguments: matches 2 schemas where exactly one is allowed",
+    ]);
+  });
+
+  test("checks string lengths and patterns", () => {
+    const schema = { type: "string", minLength: 2, maxLength: 4, pattern: "^[a-z]+$" };
+    expect(validateJsonSchema("abc", schema)).toEqual([]);
+    expect(validateJsonSchema("a", schema)).toEqual(["arguments: shorter than 2 characters"]);
+    expect(validateJsonSchema("ABCDE", schema)).toEqual([
+      "arguments: longer than 4 characters",
+      "arguments: does not match ^[a-z]+$",
+    ]);
+    // Patterns JavaScript cannot compile are not enforced
+    expect(validateJsonSchema("x", { pattern: "(?<" })).toEqual([]);
+  });
+
+  test("checks inclusive and exclusive number ranges", () => {
+    expect(validateJsonSchema(0, { minimum: 0, maximum: 10 })).toEqual([]);
+    expect(validateJsonSchema(11, { minimum: 0, maximum: 10 })).toEqual([
+      "arguments: above the maximum of 10",
+    ]);
+    expect(validateJsonSchema(0, { exclusiveMinimum: 0 })).toEqual([
+      "arguments: must be greater than 0",
+    ]);
+    expect(validateJsonSchema(10, { exclusiveMaximum: 10 })).toEqual([
+      "arguments: must be less than 10",
+    ]);
+  });
+
+  test("reads draft 4 boolean exclusive limits against minimum and maximum", () => {
+    expect(validateJsonSchema(0, { minimum: 0, exclusiveMinimum: true })).toEqual([
+      "arguments: must be greater than 0",
+    ]);
+    expect(validateJsonSchema(10, { maximum: 10, exclusiveMaximum: false })).toEqual([]);
+  });
+
+  test("checks multipleOf with floating point tolerance", () => {
+    expect(validateJsonSchema(0.3, { multipleOf: 0.1 })).toEqual([]);
+    expect(validateJsonSchema(7, { multipleOf: 2 })).toEqual([
+      "arguments: not a multiple of 2",
+    ]);
+  });
+
+  test("checks array sizes, unique items and each item", () => {
+    const schema = {
+      type: "array",
+      minItems: 1,
+      maxItems: 3,
+      uniqueItems: true,
+      items: { type: "string" },
+    };
+    expect(validateJsonSchema(["a", "b"], schema)).toEqual([]);
+    expect(validateJsonSchema([], schema)).toEqual(["arguments: fewer than 1 items"]);
+    expect(validateJsonSchema(["a", "a", 1, "b"], schema)).toEqual([
+      "arguments: more than 3 items",
+      "arguments: items must be unique",
+      "arguments[2]: expected string, got number",
+    ]);
+    expect(validateJsonSchema([{ a: 1 }, { a: 1 }], { uniqueItems: true })).toEqual([
+      "arguments: items must be unique",
+    ]);
+  });
+
+  test("checks required, declared and additional properties", () => {
+    const schema = {
+      type: "object",
+      properties: { path: { type: "string" } },
+      required: ["path"],
+      additionalProperties: false,
+    };
+    expect(validateJsonSchema({ path: "src" }, schema)).toEqual([]);
+    expect(validateJsonSchema({ extra: 1 }, schema)).toEqual([
+      "arguments.path: required",
+      "arguments.extra: not allowed",
+    ]);
+    expect(
+      validateJsonSchema({ a: "x", b: 2 }, { additionalProperties: { type: "number" } }),
+    ).toEqual(["arguments.a: expected number, got string"]);
+  });
+
+  test("only counts own properties", () => {
+    expect(validateJsonSchema({}, { type: "object", required: ["toString"] })).toEqual([
+      "arguments.toString: required",
+    ]);
+    expect(
+      validateJsonSchema(
+        { constructor: 1 },
+        { type: "object", properties: {}, additionalProperties: false },
+      ),
+    ).toEqual(["arguments.constructor: not allowed"]);
+  });
+});
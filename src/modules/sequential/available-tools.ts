@@ -0,0 +1,272 @@
+// src/modules/sequential/available-tools.ts
+import { z } from "zod";
+
+// JSON Schema keywords that restrict values but are not checked. Arguments for a tool whose
+// schema uses one are passed on unchecked rather than half-checked
+const UNSUPPORTED_KEYWORDS = [
+  "$ref",
+  "$dynamicRef",
+  "allOf",
+  "not",
+  "if",
+  "then",
+  "else",
+  "dependencies",
+  "dependentRequired",
+  "dependentSchemas",
+  "patternProperties",
+  "propertyNames",
+  "minProperties",
+  "maxProperties",
+  "unevaluatedProperties",
+  "prefixItems",
+  "additionalItems",
+  "unevaluatedItems",
+  "contains",
+  "minContains",
+  "maxContains",
+];
+
+// A tool the client can run, declared so models suggest it by its real name
+export const AvailableToolSchema = z.object({
+  name: z.string().min(1).describe("Tool name exactly as the client calls it"),
+  description: z.string().optional().describe("What the tool does"),
+  inputSchema: z
+    .record(z.unknown())
+    .optional()
+    .describe("JSON Schema of the tool's arguments"),
+});
+
+export type AvailableTool = z.infer<typeof AvailableToolSchema>;
+
+// Tools registered on the session plus those passed with the call, which win on name clashes
+export function mergeAvailableTools(
+  registered: AvailableTool[] = [],
+  perCall: AvailableTool[] = [],
+): AvailableTool[] {
+  const byName = new Map<string, AvailableTool>();
+  for (const tool of [...registered, ...perCall]) {
+    byName.set(tool.name, tool);
+  }
+  return [...byName.values()];
+}
+
+// Declared tools whose arguments cannot be checked, with the keywords that prevent it
+export function findUncheckedTools(
+  tools: AvailableTool[] = [],
+): Array<{ name: string; unsupportedKeywords: string[] }> {
+  return tools.flatMap((tool) => {
+    const unsupportedKeywords = tool.inputSchema
+      ? findUnsupportedKeywords(tool.inputSchema)
+      : [];
+    return unsupportedKeywords.length > 0 ? [{ name: tool.name, unsupportedKeywords }] : [];
+  });
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  // Numbers since draft 6; draft 4 used booleans that make minimum and maximum exclusive
+  exclusiveMinimum?: number | boolean;
+  exclusiveMaximum?: number | boolean;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+};
+
+// Patterns the JavaScript engine cannot compile are not enforced
+const matchesPattern = (value: string, pattern: string): boolean => {
+  try {
+    return new RegExp(pattern, "u").test(value);
+  } catch {
+    return true;
+  }
+};
+
+// Paths of the unsupported keywords in a schema and the schemas nested in it
+export function findUnsupportedKeywords(
+  schema: JsonSchema | Record<string, unknown>,
+  path: string = "inputSchema",
+): string[] {
+  const rules = schema as JsonSchema;
+  const found = UNSUPPORTED_KEYWORDS.filter((keyword) =>
+    Object.hasOwn(schema, keyword),
+  ).map((keyword) => `${path}.${keyword}`);
+
+  const nested: Array<[string, unknown]> = [
+    ...Object.entries(rules.properties ?? {}).map(
+      ([key, property]): [string, unknown] => [`${path}.properties.${key}`, property],
+    ),
+    [`${path}.items`, rules.items],
+    [`${path}.additionalProperties`, rules.additionalProperties],
+    ...(["anyOf", "oneOf"] as const).flatMap((keyword) =>
+      (rules[keyword] ?? []).map(
+        (option, index): [string, unknown] => [`${path}.${keyword}[${index}]`, option],
+      ),
+    ),
+  ];
+  for (const [nestedPath, child] of nested) {
+    if (child && typeof child === "object" && !Array.isArray(child)) {
+      found.push(...findUnsupportedKeywords(child as JsonSchema, nestedPath));
+    }
+  }
+  return found;
+}
+
+// Check a value against the commonly used subset of JSON Schema: type, enum, const,
+// properties, required, additionalProperties, items, uniqueItems, anyOf, oneOf, multipleOf and
+// the length and range limits. Annotations such as description are ignored; schemas using any
+// other keyword are not checked at all (see findUnsupportedKeywords). Returns one message per
+// violation
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema | Record<string, unknown>,
+  path: string = "arguments",
+): string[] {
+  const rules = schema as JsonSchema;
+  const errors: string[] = [];
+
+  if (rules.type !== undefined) {
+    const types = Array.isArray(rules.type) ? rules.type : [rules.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (rules.enum && !rules.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${rules.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+  if (Object.hasOwn(rules, "const") && JSON.stringify(rules.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(rules.const)}`);
+  }
+
+  const matching = (options: JsonSchema[]) =>
+    options.filter((option) => validateJsonSchema(value, option, path).length === 0).length;
+  if (rules.anyOf && matching(rules.anyOf) === 0) {
+    errors.push(`${path}: matches none of the allowed schemas`);
+  }
+  if (rules.oneOf) {
+    const matches = matching(rules.oneOf);
+    if (matches !== 1) {
+      errors.push(
+        matches === 0
+          ? `${path}: matches none of the allowed schemas`
+          : `${path}: matches ${matches} schemas where exactly one is allowed`,
+      );
+    }
+  }
+
+  if (typeof value === "string") {
+    if (rules.minLength !== undefined && value.length < rules.minLength) {
+      errors.push(`${path}: shorter than ${rules.minLength} characters`);
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      errors.push(`${path}: longer than ${rules.maxLength} characters`);
+    }
+    if (rules.pattern !== undefined && !matchesPattern(value, rules.pattern)) {
+      errors.push(`${path}: does not match ${rules.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (rules.minimum !== undefined && value < rules.minimum) {
+      errors.push(`${path}: below the minimum of ${rules.minimum}`);
+    }
+    if (rules.maximum !== undefined && value > rules.maximum) {
+      errors.push(`${path}: above the maximum of ${rules.maximum}`);
+    }
+
+    const exclusiveMinimum =
+      rules.exclusiveMinimum === true ? rules.minimum : rules.exclusiveMinimum;
+    if (typeof exclusiveMinimum === "number" && value <= exclusiveMinimum) {
+      errors.push(`${path}: must be greater than ${exclusiveMinimum}`);
+    }
+    const exclusiveMaximum =
+      rules.exclusiveMaximum === true ? rules.maximum : rules.exclusiveMaximum;
+    if (typeof exclusiveMaximum === "number" && value >= exclusiveMaximum) {
+      errors.push(`${path}: must be less than ${exclusiveMaximum}`);
+    }
+    if (rules.multipleOf !== undefined && rules.multipleOf > 0) {
+      // Tolerate floating point noise such as 0.3 / 0.1
+      const quotient = value / rules.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        errors.push(`${path}: not a multiple of ${rules.multipleOf}`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (rules.minItems !== undefined && value.length < rules.minItems) {
+      errors.push(`${path}: fewer than ${rules.minItems} items`);
+    }
+    if (rules.maxItems !== undefined && value.length > rules.maxItems) {
+      errors.push(`${path}: more than ${rules.maxItems} items`);
+    }
+    if (
+      rules.uniqueItems === true &&
+      new Set(value.map((item) => JSON.stringify(item))).size !== value.length
+    ) {
+      errors.push(`${path}: items must be unique`);
+    }
+    if (rules.items) {
+      value.forEach((item, index) =>
+        errors.push(...validateJsonSchema(item, rules.items!, `${path}[${index}]`)),
+      );
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    // Own properties only, so names like "toString" neither satisfy required nor match a schema
+    for (const key of rules.required ?? []) {
+      if (!Object.hasOwn(record, key)) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, entry] of Object.entries(record)) {
+      const property =
+        rules.properties && Object.hasOwn(rules.properties, key)
+          ? rules.properties[key]
+          : undefined;
+      if (property) {
+        errors.push(...validateJsonSchema(entry, property, `${path}.${key}`));
+      } else if (rules.additionalProperties === false) {
+        errors.push(`${path}.${key}: not allowed`);
+      } else if (typeof rules.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(entry, rules.additionalProperties, `${path}.${key}`),
+        );
+      }
+    }
+  }
+
+  return errors;
+}
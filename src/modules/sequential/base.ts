@@ -0,0 +1,929 @@
+// src/modules/sequential/base.ts
+import { z } from "zod";
+import type { ModelProfile } from "../config";
+import { formatCodeContext } from "../code/context";
+import {
+  LOCAL_TOOLS,
+  LocalToolRunner,
+  ToolExecution,
+  hasRun,
+} from "../code/local-tools";
+import {
+  GenerationError,
+  toErrorResult,
+  toGenerationError,
+} from "../providers/errors";
+import { RetryPolicy, sleep, withRetry } from "../providers/retry";
+import { PromptTemplate, getBuiltinPrompts } from "../prompts";
+import type { ReasoningSession } from "../session";
+import { AvailableTool, mergeAvailableTools } from "./available-tools";
+import {
+  ConsistencyReport,
+  SelfConsistencyOptions,
+  assessConsistency,
+  runWithConcurrency,
+} from "./consistency";
+import { buildContextWindow, truncateToTokens } from "./context-window";
+import { DebateTurn, buildDebateSection } from "./debate";
+import { getBranchOrigin, getLineage } from "./lineage";
+import {
+  BUILTIN_MODES,
+  DEFAULT_MODE,
+  SelectedMode,
+  formatModeInstructions,
+} from "./modes";
+import {
+  REVISION_SUMMARY_HEADING,
+  markSuperseded,
+  resolveRevisionTarget,
+  summarizeRevision,
+} from "./revision";
+import {
+  ToolRequest,
+  buildToolRequestInstructions,
+  extractToolRequests,
+} from "./tool-requests";
+import { ThoughtData, SequentialThinkingSchema } from "./utils";
+
+export type ProviderOptions = Partial<
+  Pick<
+    ModelProfile,
+    "baseURL" | "temperature" | "maxTokens" | "contextTokens" | "timeoutMs"
+  >
+> & {
+  // Profile name recorded on every thought this provider generates
+  profileName?: string;
+  // Number of most recent lineage thoughts kept verbatim in the prompt
+  recentThoughts?: number;
+  // Backoff policy for transient provider failures
+  retry?: RetryPolicy;
+  // Template the thought prompts are rendered from; the built-in default when unset
+  promptTemplate?: PromptTemplate;
+};
+
+// Streaming update emitted as reasoning and content tokens arrive
+export type ProgressUpdate = {
+  profile: string;
+  channel: "reasoning" | "content";
+  delta: string;
+  reasoningTokens: number;
+  contentTokens: number;
+};
+
+// Per-request hooks threaded from the MCP request down to the completion call
+export type ThinkingOptions = {
+  onProgress?: (update: ProgressUpdate) => void;
+  // Aborted when the client cancels the request or the profile times out
+  signal?: AbortSignal;
+  // Return the raw reasoning trace in the response, not only the answer
+  includeReasoning?: boolean;
+  // Set when the thought is a turn in a cross-model debate
+  debate?: DebateTurn;
+  // Draw several samples and keep the majority conclusion
+  selfConsistency?: SelfConsistencyOptions;
+  // Reasoning mode resolved from args.reasoningMode; the analytical mode when unset
+  mode?: SelectedMode;
+  // Read-only tools the server runs itself before keeping an answer
+  localTools?: LocalToolRunner;
+  // Time every generation of the thought must end by, so tool rounds share one timeout
+  deadlineAt?: number;
+};
+
+// A model's output split into its reasoning trace and final answer
+export type Completion = {
+  reasoning: string;
+  answer: string;
+};
+
+// Generated output plus how the generation ended and which model produced it
+type GeneratedThought = Completion & {
+  truncated: boolean;
+  timedOut: boolean;
+  cancelled: boolean;
+  model: string;
+  fallbackProfile?: string;
+  failedAttempts: GenerationError["attempts"];
+  promptVersion: string;
+};
+
+// Prompt fragments shared by every provider's prompt layout
+export type PromptSections = {
+  originalQuery: string;
+  previousThoughts: string;
+  userContextSection: string;
+  intro: string;
+  revisionSection: string;
+  debateSection: string;
+  ending: string;
+  externalToolInfo: string;
+  // Selected reasoning mode and its numbered steps and answer headings
+  mode: SelectedMode;
+  modeInstructions: string;
+  // Client tools from the session and the call, and the local tools when the server runs
+  // them, offered for tool requests
+  availableTools: AvailableTool[];
+  // Set when the client declared no tools, so requests may name any other tool type
+  acceptUndeclaredTools: boolean;
+};
+
+// Shared sequential thinking flow; providers only supply the completion call
+export abstract class BaseSequentialThinkingServer {
+  protected model: string;
+  protected profileName: string;
+  protected temperature: number;
+  protected maxTokens: number;
+  protected contextTokens: number;
+  protected recentThoughts: number;
+  protected timeoutMs: number;
+  protected retry: RetryPolicy;
+  protected promptTemplate: PromptTemplate;
+  private fallbacks: BaseSequentialThinkingServer[] = [];
+  private lastThoughtTimestamp: number | null = null;
+
+  constructor(model: string, options: ProviderOptions = {}) {
+    this.model = model;
+    this.profileName = options.profileName ?? model;
+    this.temperature = options.temperature ?? 1;
+    this.maxTokens = options.maxTokens ?? 64000;
+    this.contextTokens = options.contextTokens ?? 32000;
+    this.recentThoughts = options.recentThoughts ?? 2;
+    this.timeoutMs = options.timeoutMs ?? 600000;
+    this.retry = options.retry ?? {
+      maxRetries: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+    };
+    this.promptTemplate = options.promptTemplate ?? getBuiltinPrompts().get();
+  }
+
+  // Servers tried in order once this one's model keeps failing
+  public setFallbacks(fallbacks: BaseSequentialThinkingServer[]): void {
+    this.fallbacks = fallbacks;
+  }
+
+  // Call the underlying model and return its reasoning and content, throwing provider errors
+  // so they can be retried. Once options.signal aborts, implementations stop generating and
+  // return whatever text arrived so far
+  protected abstract getCompletionWithReasoning(
+    systemPrompt: string,
+    userPrompt: string,
+    options: ThinkingOptions,
+  ): Promise<Completion>;
+
+  // Build a per-completion reporter that forwards streamed deltas with running token counts
+  protected createProgressReporter(
+    options: ThinkingOptions,
+  ): (channel: ProgressUpdate["channel"], delta: string) => void {
+    let reasoningChars = 0;
+    let contentChars = 0;
+
+    return (channel, delta) => {
+      if (!options.onProgress || delta.length === 0) return;
+      if (channel === "reasoning") {
+        reasoningChars += delta.length;
+      } else {
+        contentChars += delta.length;
+      }
+      options.onProgress({
+        profile: this.profileName,
+        channel,
+        delta,
+        reasoningTokens: Math.ceil(reasoningChars / 4),
+        contentTokens: Math.ceil(contentChars / 4),
+      });
+    };
+  }
+
+  // Thoughts in the session generated by a profile, this provider's own by default
+  protected getOwnThoughts(
+    session: ReasoningSession,
+    profile: string = this.profileName,
+  ): ThoughtData[] {
+    return session.thoughtHistory.filter(
+      (t) => (t.profile ?? t.model) === profile,
+    );
+  }
+
+  // Simple check if current thinking matches previous
+  private isThinkingTooSimilar(
+    session: ReasoningSession,
+    currentThinking: string,
+  ): boolean {
+    const ownThoughts = this.getOwnThoughts(session);
+    if (ownThoughts.length === 0) return false;
+    return currentThinking === ownThoughts[ownThoughts.length - 1].currentThinking;
+  }
+
+  // Prompt sections for a thought in the given profile's lineage; fallbacks build them for
+  // the profile they stand in for
+  protected buildPromptSections(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    session: ReasoningSession,
+    profile: string = this.profileName,
+    {
+      debate,
+      mode,
+      localTools,
+    }: Pick<ThinkingOptions, "debate" | "mode" | "localTools"> = {},
+  ): PromptSections {
+    // Simplified context info
+    let intro =
+      args.thoughtNumber === 1
+        ? "This is the first thought in our analysis."
+        : `This is Thought #${args.thoughtNumber} in our sequential analysis.`;
+
+    // Show the current version of the revised thought verbatim
+    let revisionSection = "";
+    if (args.isRevision) {
+      intro += ` This revises Thought #${args.revisesThought}.`;
+
+      const target = args.revisesThought
+        ? resolveRevisionTarget(
+            this.getOwnThoughts(session, profile),
+            args.revisesThought,
+            args.branchId,
+          )
+        : undefined;
+      if (target) {
+        revisionSection = `
+
+**Thought Being Revised (#${target.thoughtNumber}${target.thoughtNumber !== args.revisesThought ? `, latest revision of #${args.revisesThought}` : ""}):**
+${truncateToTokens(target.answer, Math.floor(this.contextTokens / 4), "revised thought")}
+
+Replace this thought rather than adding to it. Begin your response with a "${REVISION_SUMMARY_HEADING}" section that briefly lists what changed and why.
+`;
+      }
+    } else if (args.branchId) {
+      const branchPoint =
+        getBranchOrigin(session.thoughtHistory, args.branchId) ??
+        args.branchFromThought;
+      intro += branchPoint
+        ? ` This continues branch '${args.branchId}', which branches from Thought #${branchPoint}.`
+        : ` This continues branch '${args.branchId}'.`;
+    } else if (args.branchFromThought) {
+      intro += ` This branches from Thought #${args.branchFromThought}.`;
+    }
+
+    const debateSection = debate
+      ? buildDebateSection(debate, profile, this.contextTokens)
+      : "";
+
+    let userContext = "";
+    if (args.userContext) {
+      if (typeof args.userContext === "string") {
+        userContext = args.userContext;
+      } else if (args.userContext.type === "codeContext") {
+        // Format structured code context
+        userContext = formatCodeContext(args.userContext);
+      }
+    }
+
+    // Fit the lineage and oversized inputs into this model's context budget
+    const window = buildContextWindow(
+      args.thoughtNumber > 1
+        ? getLineage(this.getOwnThoughts(session, profile), args)
+        : [],
+      `${session.originalQuery}\n${args.currentThinking}\n${revisionSection}${debateSection}`,
+      userContext,
+      args.externalToolResult?.result ?? "",
+      {
+        budgetTokens: this.contextTokens,
+        recentThoughts: this.recentThoughts,
+      },
+    );
+
+    // Build previous thoughts context: a running summary of older thoughts, recent ones verbatim
+    let previousThoughts = "";
+    if (window.runningSummary || window.recentThoughts.length > 0) {
+      const recent = window.recentThoughts
+        .map(
+          (t, index) =>
+            `Previous Thought #${t.thoughtNumber}${t.branchId ? ` (branch ${t.branchId})` : ""}:\n${window.recentThoughtTexts[index]}`,
+        )
+        .join("\n\n");
+      const summary = window.runningSummary
+        ? `Summary of earlier thoughts:\n${window.runningSummary}\n\n`
+        : "";
+
+      previousThoughts = `\n\nPrevious thinking:\n${summary}${recent}\n\n`;
+    }
+
+    let userContextSection = "";
+    if (args.userContext) {
+      userContextSection =
+        typeof args.userContext === "string"
+          ? `\n\n**User-Provided Context:**\n${window.userContext}\n\n`
+          : window.userContext;
+    }
+
+    const isLastThought = args.thoughtNumber >= args.totalThoughts;
+    const ending = isLastThought
+      ? "\n\nThis is the final thought in our sequence. Consider providing a conclusion."
+      : "";
+
+    const selectedMode = mode ?? {
+      name: DEFAULT_MODE,
+      ...BUILTIN_MODES[DEFAULT_MODE],
+    };
+
+    // Add external tool results if available
+    let externalToolInfo = "";
+    if (args.externalToolResult) {
+      externalToolInfo = `
+\n\n**External Tool Results:**
+Tool Used: ${args.externalToolResult.toolType}
+Query: ${args.externalToolResult.query}
+Result:
+${window.externalToolResult}
+
+Please incorporate this information into your thinking.
+`;
+    }
+
+    return {
+      originalQuery: session.originalQuery,
+      previousThoughts,
+      userContextSection,
+      intro,
+      revisionSection,
+      debateSection,
+      ending,
+      externalToolInfo,
+      mode: selectedMode,
+      modeInstructions: formatModeInstructions(selectedMode),
+      ...this.availableToolsFor(args, session, localTools),
+    };
+  }
+
+  // Client tools from the session and the call, plus the local tools when the server runs them.
+  // Clients that declared no tools keep accepting any tool type next to the local ones
+  private availableToolsFor(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    session: ReasoningSession,
+    localTools?: LocalToolRunner,
+  ): { availableTools: AvailableTool[]; acceptUndeclaredTools: boolean } {
+    const declared = mergeAvailableTools(session.availableTools, args.availableTools);
+    return {
+      availableTools: localTools ? mergeAvailableTools(LOCAL_TOOLS, declared) : declared,
+      acceptUndeclaredTools: declared.length === 0,
+    };
+  }
+
+  // Render the profile's prompt template; providers may override the layout
+  protected buildPrompts(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    sections: PromptSections,
+  ): { systemPrompt: string; userPrompt: string } {
+    return this.promptTemplate.render({
+      originalQuery: sections.originalQuery,
+      currentThinking: args.currentThinking,
+      thoughtNumber: args.thoughtNumber,
+      totalThoughts: args.totalThoughts,
+      stage: args.thoughtNumber == 1 ? "initial" : "next",
+      intro: sections.intro,
+      userContext: sections.userContextSection,
+      revision: sections.revisionSection,
+      debate: sections.debateSection,
+      previousThoughts: sections.previousThoughts,
+      externalToolResult: sections.externalToolInfo,
+      ending: sections.ending,
+      modeName: sections.mode.name,
+      modeSystemPrompt: sections.mode.systemPrompt,
+      modeInstructions: sections.modeInstructions,
+      toolRequests: buildToolRequestInstructions(
+        sections.availableTools,
+        sections.acceptUndeclaredTools,
+      ),
+    });
+  }
+
+  // Run a thought from the given profile's lineage through this server's model, retrying
+  // transient failures
+  private async complete(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    session: ReasoningSession,
+    profile: string,
+    options: ThinkingOptions,
+  ): Promise<Completion> {
+    const sections = this.buildPromptSections(args, session, profile, options);
+    const { systemPrompt, userPrompt } = this.buildPrompts(args, sections);
+    return this.completePrompts(systemPrompt, userPrompt, options);
+  }
+
+  // Run prompts through this server's model, retrying transient failures
+  private async completePrompts(
+    systemPrompt: string,
+    userPrompt: string,
+    options: ThinkingOptions,
+  ): Promise<Completion> {
+    return withRetry(
+      () => this.getCompletionWithReasoning(systemPrompt, userPrompt, options),
+      this.retry,
+      options.signal,
+      (attempt, delayMs, error) =>
+        console.error(
+          `${this.profileName}: retry ${attempt}/${this.retry.maxRetries} in ${delayMs}ms after ${error}`,
+        ),
+    );
+  }
+
+  // Signal for one generation, aborted by client cancellation or the profile timeout, which
+  // runs from deadlineAt instead when the thought has one
+  private createDeadline(
+    signal?: AbortSignal,
+    deadlineAt?: number,
+  ): {
+    signal: AbortSignal;
+    timedOut: () => boolean;
+    dispose: () => void;
+  } {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(
+      () => {
+        timedOut = true;
+        controller.abort();
+      },
+      deadlineAt !== undefined ? Math.max(0, deadlineAt - Date.now()) : this.timeoutMs,
+    );
+    const cancel = () => controller.abort();
+    if (signal?.aborted) cancel();
+    signal?.addEventListener("abort", cancel);
+
+    return {
+      signal: controller.signal,
+      timedOut: () => timedOut,
+      dispose: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", cancel);
+      },
+    };
+  }
+
+  // Run a standalone prompt under this profile's timeout and retry policy, outside any
+  // session; used for passes such as multi-model synthesis
+  public async runPrompt(
+    systemPrompt: string,
+    userPrompt: string,
+    options: ThinkingOptions = {},
+  ): Promise<Completion & { model: string; truncated: boolean }> {
+    const deadline = this.createDeadline(options.signal);
+    try {
+      const completion = await this.completePrompts(systemPrompt, userPrompt, {
+        ...options,
+        signal: deadline.signal,
+      });
+      return {
+        ...completion,
+        model: this.model,
+        truncated: deadline.signal.aborted,
+      };
+    } catch (error) {
+      throw toGenerationError(error, {
+        profile: this.profileName,
+        model: this.model,
+      });
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  // Generate with the primary model and its fallbacks; throws a GenerationError when every
+  // model failed so nothing is stored
+  private async generateThought(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    session: ReasoningSession,
+    options: ThinkingOptions,
+  ): Promise<GeneratedThought> {
+    const deadline = this.createDeadline(options.signal, options.deadlineAt);
+    const generationOptions = { ...options, signal: deadline.signal };
+    const failedAttempts: GeneratedThought["failedAttempts"] = [];
+    let primaryError: GenerationError | undefined;
+
+    try {
+      // The primary model first, then each fallback once its predecessor gave up
+      for (const server of [this, ...this.fallbacks]) {
+        const producedBy = {
+          model: server.model,
+          fallbackProfile: server === this ? undefined : server.profileName,
+          failedAttempts,
+          promptVersion: server.promptTemplate.id,
+        };
+
+        try {
+          const completion = await server.complete(
+            args,
+            session,
+            this.profileName,
+            generationOptions,
+          );
+          const truncated = deadline.signal.aborted;
+          return {
+            ...completion,
+            truncated,
+            timedOut: truncated && deadline.timedOut(),
+            cancelled: truncated && !deadline.timedOut(),
+            ...producedBy,
+          };
+        } catch (error) {
+          // Aborted while waiting to retry; nothing was generated
+          if (deadline.signal.aborted) {
+            return {
+              reasoning: "",
+              answer: "",
+              truncated: true,
+              timedOut: deadline.timedOut(),
+              cancelled: !deadline.timedOut(),
+              ...producedBy,
+            };
+          }
+          const failure = toGenerationError(error, {
+            profile: server.profileName,
+            model: server.model,
+          });
+          primaryError ??= failure;
+          failedAttempts.push({
+            profile: server.profileName,
+            model: server.model,
+            kind: failure.kind,
+            error: failure.message,
+          });
+          console.error(
+            `${this.profileName}: ${server.model} failed (${failure.kind}): ${failure.message}`,
+          );
+        }
+      }
+
+      // Report the profile's own failure; fallback failures are listed as attempts
+      throw new GenerationError(
+        primaryError!.kind,
+        this.fallbacks.length > 0
+          ? `${this.profileName} and its fallbacks failed: ${primaryError!.message}`
+          : primaryError!.message,
+        {
+          profile: this.profileName,
+          model: this.model,
+          status: primaryError!.status,
+          retryAfterMs: primaryError!.retryAfterMs,
+          attempts: this.fallbacks.length > 0 ? failedAttempts : undefined,
+        },
+      );
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  // Draw several samples of the thought and keep the one that best represents the majority
+  // conclusion; a single sample when self-consistency is off
+  private async sampleThought(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    session: ReasoningSession,
+    options: ThinkingOptions,
+  ): Promise<GeneratedThought & { consistency?: ConsistencyReport }> {
+    const sampling = options.selfConsistency;
+    if (!sampling || sampling.samples < 2) {
+      return this.generateThought(args, session, options);
+    }
+
+    const settled = await runWithConcurrency(
+      Array.from(
+        { length: sampling.samples },
+        () => () => this.generateThought(args, session, options),
+      ),
+      sampling.concurrency,
+    );
+    const generated = settled.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : [],
+    );
+
+    // Only complete samples vote; partial ones would skew the clusters
+    const samples = generated.filter(
+      (sample) => !sample.truncated && (sample.answer || sample.reasoning),
+    );
+    if (samples.length === 0) {
+      const fallback = generated.find((sample) => sample.cancelled) ?? generated[0];
+      if (fallback) return fallback;
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    // A trailing tool-requests block would otherwise pass for the conclusion
+    const consistency = assessConsistency(
+      samples.map(
+        (sample) => extractToolRequests(sample.answer || sample.reasoning).answer,
+      ),
+      sampling.similarityThreshold,
+    );
+    return { ...samples[consistency.representative], consistency };
+  }
+
+  private cancelledResult(partialAnswer: string): {
+    content: Array<{ type: string; text: string }>;
+    isError: boolean;
+  } {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              error: "Thought generation was cancelled",
+              partialAnswer,
+              status: "cancelled",
+            },
+            null,
+            2,
+          ),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Process the sequential thinking
+  public async processSequentialThinking(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    session: ReasoningSession,
+    options: ThinkingOptions = {},
+  ): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      // Check if current thinking is too similar to previous; debate rounds repeat it on purpose
+      const isDebateRound = (options.debate?.round ?? 0) > 0;
+      if (
+        !isDebateRound &&
+        this.isThinkingTooSimilar(session, args.currentThinking)
+      ) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  error:
+                    "ERROR: The currentThinking parameter must be different for each thought.",
+                  status: "failed",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // Add rate limiting between thoughts to prevent too rapid sequential processing
+      if (this.lastThoughtTimestamp) {
+        const timeSinceLastThought = Date.now() - this.lastThoughtTimestamp;
+        const minThinkingTime = 2000; // 2 seconds minimum between thoughts
+
+        if (timeSinceLastThought < minThinkingTime) {
+          await sleep(minThinkingTime - timeSinceLastThought, options.signal);
+        }
+      }
+
+      // Cancelled while waiting; nothing has been generated yet
+      if (options.signal?.aborted) {
+        return this.cancelledResult("");
+      }
+
+      // The first thought of a session defines its original query, later ones never overwrite it
+      if (session.originalQuery === "") {
+        session.originalQuery = args.currentThinking;
+      }
+
+      // A model that stopped inside its reasoning leaves no answer; later thoughts build on the
+      // trace. Tool requests come off the stored answer
+      const localTools = options.localTools;
+      const { availableTools, acceptUndeclaredTools } = this.availableToolsFor(
+        args,
+        session,
+        localTools,
+      );
+      const extract = (thought: GeneratedThought) =>
+        extractToolRequests(
+          thought.answer || thought.reasoning,
+          availableTools,
+          (request) => localTools?.normalize(request) ?? request,
+          acceptUndeclaredTools,
+        );
+
+      // Generate the thought; with local tools on, run the new ones it asks for and generate
+      // again with their results until it needs none, the rounds run out or the profile's
+      // timeout, shared by all rounds, has passed
+      const generationOptions: ThinkingOptions = localTools
+        ? { ...options, deadlineAt: Date.now() + this.timeoutMs }
+        : options;
+      let generated = await this.sampleThought(args, session, generationOptions);
+      let extracted = extract(generated);
+      const toolExecutions: ToolExecution[] = [];
+      for (let round = 1; localTools && round <= localTools.maxRounds; round++) {
+        if (generated.truncated) break;
+        const runnable: ToolRequest[] = [];
+        for (const request of extracted.toolRequests) {
+          // Requests repeated from an earlier round or within this one run only once
+          if (
+            localTools.canRun(request) &&
+            !hasRun([...toolExecutions, ...runnable], request)
+          ) {
+            runnable.push(request);
+          }
+        }
+        if (runnable.length === 0) break;
+
+        for (const request of runnable) {
+          toolExecutions.push(await localTools.run(request, round));
+        }
+        const regenerated = await this.sampleThought(
+          {
+            ...args,
+            externalToolResult: localTools.toExternalResult(
+              toolExecutions,
+              args.externalToolResult,
+            ),
+          },
+          session,
+          generationOptions,
+        );
+        // A round the timeout cut off before any output keeps the previous answer
+        if (regenerated.timedOut && !regenerated.answer && !regenerated.reasoning) break;
+        generated = regenerated;
+        extracted = extract(generated);
+      }
+
+      const {
+        reasoning,
+        answer: generatedAnswer,
+        truncated,
+        timedOut,
+        cancelled,
+        model,
+        fallbackProfile,
+        failedAttempts,
+        promptVersion,
+        consistency,
+      } = generated;
+
+      // A cancelled request has no one waiting for it; keep its partial text out of the session
+      if (cancelled) {
+        return this.cancelledResult(generatedAnswer);
+      }
+
+      // Nothing arrived before the timeout, so there is no partial thought to keep
+      if (timedOut && !reasoning && !generatedAnswer) {
+        throw new GenerationError(
+          "timeout",
+          `${this.profileName} produced no output within ${this.timeoutMs}ms`,
+          { profile: this.profileName, model },
+        );
+      }
+
+      // Requests the server already ran are answered in toolExecutions, not handed to the client
+      const { answer, rejectedToolRequests } = extracted;
+      const toolRequests = extracted.toolRequests.filter(
+        (request) => !hasRun(toolExecutions, request),
+      );
+
+      // Resolve the version being revised before the revision joins the history
+      const revisionTarget =
+        args.isRevision && args.revisesThought
+          ? resolveRevisionTarget(
+              this.getOwnThoughts(session),
+              args.revisesThought,
+              args.branchId,
+            )
+          : undefined;
+      const revisionSummary = revisionTarget
+        ? summarizeRevision(revisionTarget.answer, answer)
+        : undefined;
+
+      // Create thought data object
+      const thoughtData: ThoughtData = {
+        originalQuery: session.originalQuery,
+        currentThinking: args.currentThinking,
+        thoughtNumber: args.thoughtNumber,
+        totalThoughts: args.totalThoughts,
+        nextThoughtNeeded: args.nextThoughtNeeded,
+        answer,
+        reasoning: reasoning || undefined,
+        truncated: truncated || undefined,
+        timedOut: timedOut || undefined,
+        isRevision: args.isRevision,
+        revisesThought: args.revisesThought,
+        revisionSummary,
+        branchFromThought: args.branchFromThought,
+        branchId: args.branchId,
+        reasoningMode: args.reasoningMode,
+        userContext: args.userContext, // Store userContext in thought data
+        externalToolResult: args.externalToolResult,
+        debate: options.debate
+          ? {
+              debateId: options.debate.debateId,
+              round: options.debate.round,
+              respondsTo: options.debate.positions
+                .map((position) => position.profile)
+                .filter((profile) => profile !== this.profileName),
+            }
+          : undefined,
+        model,
+        profile: this.profileName,
+        fallbackProfile,
+        promptVersion,
+        consistency: consistency
+          ? {
+              samples: consistency.samples,
+              agreementRatio: consistency.agreementRatio,
+              majorityConclusion: consistency.majorityConclusion,
+              dissents: consistency.dissents.map((dissent) => ({
+                share: dissent.samples.length / consistency.samples,
+                conclusion: dissent.conclusion,
+              })),
+            }
+          : undefined,
+        timestamp: Date.now(),
+        toolRequests: toolRequests.length > 0 ? toolRequests : undefined,
+        toolExecutions: toolExecutions.length > 0 ? toolExecutions : undefined,
+      };
+
+      // Earlier versions stop counting as context once revised
+      if (revisionTarget) {
+        markSuperseded(session.thoughtHistory, revisionTarget, args.thoughtNumber);
+      }
+
+      // Store thought data
+      session.thoughtHistory.push(thoughtData);
+
+      // Update timestamp after processing this thought
+      this.lastThoughtTimestamp = Date.now();
+
+      // Handle branching; later thoughts on a branch may omit branchFromThought
+      if (args.branchId) {
+        if (!session.branches[args.branchId]) {
+          session.branches[args.branchId] = [];
+        }
+        if (!session.branches[args.branchId].includes(args.thoughtNumber)) {
+          session.branches[args.branchId].push(args.thoughtNumber);
+        }
+      }
+
+      // Prepare simplified response
+      const response = {
+        sessionId: session.id,
+        answer,
+        reasoning: options.includeReasoning ? reasoning : undefined,
+        truncated,
+        timedOut,
+        model,
+        fallbackProfile,
+        failedAttempts: failedAttempts.length > 0 ? failedAttempts : undefined,
+        promptVersion,
+        consistency: thoughtData.consistency,
+        thoughtNumber: args.thoughtNumber,
+        totalThoughts: args.totalThoughts,
+        nextThoughtNeeded: args.nextThoughtNeeded,
+        revision: revisionTarget
+          ? {
+              revisesThought: args.revisesThought,
+              replacedVersion: revisionTarget.thoughtNumber,
+              summary: revisionSummary,
+            }
+          : undefined,
+        toolRequests: thoughtData.toolRequests,
+        toolExecutions: thoughtData.toolExecutions,
+        rejectedToolRequests:
+          rejectedToolRequests.length > 0 ? rejectedToolRequests : undefined,
+        hint: timedOut
+          ? `Generation timed out after ${this.timeoutMs}ms; this thought is partial. Consider revising it`
+          : `${toolExecutions.length > 0 ? `The server ran ${toolExecutions.length} local tool request(s) for this thought; their results are in toolExecutions. ` : ""}${
+              toolRequests.length > 0
+                ? `Consider running the ${toolExecutions.length > 0 ? "remaining " : ""}requested tools, highest priority first (${toolRequests[0].toolType}: "${toolRequests[0].query}"), and passing the results via externalToolResult before continuing with sequential thinking${toolRequests.some((request) => request.toolType === "symbol_definition") ? ". find-symbol can answer symbol_definition requests from the workspace" : ""}`
+                : "Use this thought as input for next call"
+            }`,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(response, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof GenerationError) {
+        return toErrorResult(error);
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+}
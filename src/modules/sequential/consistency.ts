@@ -0,0 +1,135 @@
+// src/modules/sequential/consistency.ts
+
+// Sampling settings for one self-consistency run
+export type SelfConsistencyOptions = {
+  samples: number;
+  concurrency: number;
+  similarityThreshold: number;
+};
+
+export type ConsistencyReport = {
+  samples: number;
+  agreementRatio: number;
+  // Index into the answers of the sample that best represents the majority
+  representative: number;
+  majority: number[];
+  majorityConclusion: string;
+  dissents: Array<{ samples: number[]; conclusion: string }>;
+};
+
+// Words too common to say anything about a conclusion
+const STOP_WORDS = new Set(
+  "a an and are as at be but by can could do does for from has have if in into is it its may might more most not of on or should so than that the their then there these this to was we were which will with would you your".split(
+    " ",
+  ),
+);
+
+const CONCLUSION_HEADING = /^#{1,6}\s*.*\b(conclusion|summary|verdict|recommendation)s?\b.*$/im;
+
+// The part of an answer that states its conclusion: a conclusion-like section if there is
+// one, otherwise the final paragraph
+export function extractConclusion(answer: string): string {
+  const heading = answer.match(CONCLUSION_HEADING);
+  if (heading?.index !== undefined) {
+    const body = answer.slice(heading.index + heading[0].length);
+    const nextHeading = body.search(/\n#{1,6}\s/);
+    const section = (nextHeading === -1 ? body : body.slice(0, nextHeading)).trim();
+    if (section) return section;
+  }
+
+  const paragraphs = answer
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0);
+  return paragraphs[paragraphs.length - 1] ?? "";
+}
+
+const toTerms = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word)),
+  );
+
+// Jaccard similarity of two term sets
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+// Group answers whose conclusions agree. A sample joins the first cluster whose members it
+// matches on average at or above the threshold; clusters come back largest first
+export function assessConsistency(
+  answers: string[],
+  similarityThreshold: number,
+): ConsistencyReport {
+  const conclusions = answers.map(extractConclusion);
+  const terms = conclusions.map(toTerms);
+  const similarity = (i: number, j: number) => jaccard(terms[i], terms[j]);
+
+  const clusters: number[][] = [];
+  answers.forEach((_, index) => {
+    const cluster = clusters.find(
+      (members) =>
+        members.reduce((sum, member) => sum + similarity(index, member), 0) /
+          members.length >=
+        similarityThreshold,
+    );
+    if (cluster) {
+      cluster.push(index);
+    } else {
+      clusters.push([index]);
+    }
+  });
+  clusters.sort((a, b) => b.length - a.length);
+
+  // The majority member closest to all others stands for the cluster
+  const [majority, ...minority] = clusters;
+  const representative = majority.reduce((best, candidate) => {
+    const score = (index: number) =>
+      majority.reduce((sum, member) => sum + similarity(index, member), 0);
+    return score(candidate) > score(best) ? candidate : best;
+  }, majority[0]);
+
+  return {
+    samples: answers.length,
+    agreementRatio: majority.length / answers.length,
+    representative,
+    majority,
+    majorityConclusion: conclusions[representative],
+    dissents: minority.map((members) => ({
+      samples: members,
+      conclusion: conclusions[members[0]],
+    })),
+  };
+}
+
+// Run tasks with at most `limit` in flight, settling every one of them
+export async function runWithConcurrency<T>(
+  tasks: Array<() => Promise<T>>,
+  limit: number,
+): Promise<PromiseSettledResult<T>[]> {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildContextWindow,
+  estimateTokens,
+  summarizeThought,
+  truncateToTokens,
+} from "./context-window";
+import type { ThoughtData } from "./utils";
+
+const thought = (thoughtNumber: number, answer: string): ThoughtData => ({
+  originalQuery: "query",
+  currentThinking: "thinking",
+  thoughtNumber,
+  totalThoughts: 5,
+  nextThoughtNeeded: true,
+  answer,
+});
+
+describe("estimateTokens", () => {
+  test("counts one token per started group of four characters", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("truncateToTokens", () => {
+  test("leaves text within the budget alone", () => {
+    expect(truncateToTokens("short", 10, "text")).toBe("short");
+  });
+
+  test("keeps the head and tail around a marker", () => {
+    const text = `${"h".repeat(200)}${"t".repeat(200)}`;
+    expect(truncateToTokens(text, 10, "user context")).toBe(
+      `${"h".repeat(28)}\n\n[... user context truncated: ~90 tokens omitted ...]\n\n${"t".repeat(12)}`,
+    );
+  });
+
+  test("leaves only the marker for an empty budget", () => {
+    expect(truncateToTokens("abcdefgh", 0, "text")).toBe(
+      "\n\n[... text truncated: ~2 tokens omitted ...]\n\n",
+    );
+  });
+});
+
+describe("summarizeThought", () => {
+  test("combines the opening sentence with the headings", () => {
+    const summary = summarizeThought(
+      thought(1, "# Plan\nFirst we measure. Then we cut.\n## Risks\nNone."),
+    );
+    expect(summary).toBe("First we measure. Covers: Plan; Risks");
+  });
+
+  test("uses the whole first line when it has no sentence end", () => {
+    expect(summarizeThought(thought(1, "just a note"))).toBe("just a note");
+  });
+
+  test("caps the summary length", () => {
+    expect(summarizeThought(thought(1, "x".repeat(50)), 10)).toBe(
+      `${"x".repeat(10)}...`,
+    );
+  });
+});
+
+describe("buildContextWindow", () => {
+  const lineage = [1, 2, 3, 4].map((n) => thought(n, `Answer ${n}.`));
+
+  test("keeps the recent thoughts verbatim and summarizes the older ones", () => {
+    const window = buildContextWindow(lineage, "", "context", "result", {
+      budgetTokens: 100000,
+      recentThoughts: 2,
+    });
+
+    expect(window.recentThoughts.map((t) => t.thoughtNumber)).toEqual([3, 4]);
+    expect(window.recentThoughtTexts).toEqual(["Answer 3.", "Answer 4."]);
+    expect(window.runningSummary).toBe(
+      "- Thought #1: Answer 1.\n- Thought #2: Answer 2.",
+    );
+    expect(window.userContext).toBe("context");
+    expect(window.externalToolResult).toBe("result");
+  });
+
+  test("summarizes every thought when no recent thoughts are kept", () => {
+    const window = buildContextWindow(lineage, "", "", "", {
+      budgetTokens: 100000,
+      recentThoughts: 0,
+    });
+
+    expect(window.recentThoughts).toEqual([]);
+    expect(window.runningSummary.split("\n")).toHaveLength(4);
+  });
+
+  test("drops the oldest summaries that do not fit", () => {
+    const long = [1, 2, 3, 4, 5].map((n) => thought(n, `${"word ".repeat(20)}${n}.`));
+    // 50 tokens are left after the template allowance, room for one summary line
+    const window = buildContextWindow(long, "", "", "", {
+      budgetTokens: 850,
+      recentThoughts: 0,
+    });
+
+    const lines = window.runningSummary.split("\n");
+    expect(lines[0]).toBe(
+      "[... 4 earlier thought(s) omitted to fit the context budget ...]",
+    );
+    expect(lines.slice(1)).toHaveLength(1);
+    expect(lines[1]).toStartWith("- Thought #5:");
+  });
+
+  test("trims oversized user context and tool results to their share", () => {
+    const window = buildContextWindow([], "", "c".repeat(4000), "r".repeat(4000), {
+      budgetTokens: 1800,
+      recentThoughts: 2,
+    });
+
+    expect(window.userContext).toContain("[... user context truncated");
+    expect(window.externalToolResult).toContain("[... external tool result truncated");
+    expect(estimateTokens(window.userContext)).toBeLessThan(1000);
+    expect(estimateTokens(window.externalToolResult)).toBeLessThan(1000);
+  });
+});
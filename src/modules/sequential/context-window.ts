@@ -0,0 +1,138 @@
+// src/modules/sequential/context-window.ts
+import type { ThoughtData } from "./utils";
+
+// Rough share of the remaining budget each oversized input may take
+const USER_CONTEXT_SHARE = 0.4;
+const TOOL_RESULT_SHARE = 0.25;
+
+// Allowance for the fixed prompt template around the assembled sections
+const TEMPLATE_OVERHEAD_TOKENS = 800;
+
+export type ContextWindowOptions = {
+  budgetTokens: number;
+  recentThoughts: number;
+};
+
+export type ContextWindow = {
+  runningSummary: string;
+  recentThoughts: ThoughtData[];
+  recentThoughtTexts: string[];
+  userContext: string;
+  externalToolResult: string;
+};
+
+// Cheap character-based estimate; close enough for budgeting across tokenizers
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+// Cut text down to a token budget, keeping its head and tail around a visible marker
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  label: string,
+): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  const maxChars = Math.max(0, maxTokens * 4);
+  const headChars = Math.floor(maxChars * 0.7);
+  const tailChars = maxChars - headChars;
+  const omitted = estimateTokens(text) - maxTokens;
+
+  return `${text.slice(0, headChars)}\n\n[... ${label} truncated: ~${omitted} tokens omitted ...]\n\n${tailChars > 0 ? text.slice(-tailChars) : ""}`;
+}
+
+// Compress a thought to its headings and opening sentence for the running summary
+export function summarizeThought(thought: ThoughtData, maxChars: number = 400): string {
+  const lines = thought.answer
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const headings = lines
+    .filter((line) => line.startsWith("#"))
+    .map((line) => line.replace(/^#+\s*/, ""));
+  const firstSentence =
+    lines
+      .find((line) => !line.startsWith("#"))
+      ?.match(/^.*?[.!?](\s|$)/)?.[0]
+      ?.trim() ?? lines.find((line) => !line.startsWith("#")) ?? "";
+
+  const summary = [firstSentence, headings.length > 0 ? `Covers: ${headings.join("; ")}` : ""]
+    .filter((part) => part.length > 0)
+    .join(" ");
+
+  return summary.length > maxChars ? `${summary.slice(0, maxChars)}...` : summary;
+}
+
+// Fit lineage thoughts and auxiliary inputs into a model's token budget: recent thoughts
+// stay verbatim, older ones collapse into a running summary, oversized inputs are trimmed
+export function buildContextWindow(
+  lineage: ThoughtData[],
+  fixedText: string,
+  userContext: string,
+  externalToolResult: string,
+  options: ContextWindowOptions,
+): ContextWindow {
+  let remaining =
+    options.budgetTokens - estimateTokens(fixedText) - TEMPLATE_OVERHEAD_TOKENS;
+
+  const fittedUserContext = truncateToTokens(
+    userContext,
+    Math.max(0, Math.floor(remaining * USER_CONTEXT_SHARE)),
+    "user context",
+  );
+  remaining -= estimateTokens(fittedUserContext);
+
+  const fittedToolResult = truncateToTokens(
+    externalToolResult,
+    Math.max(0, Math.floor(remaining * TOOL_RESULT_SHARE)),
+    "external tool result",
+  );
+  remaining -= estimateTokens(fittedToolResult);
+
+  // Newest thoughts are kept verbatim while they fit; slice(-0) would keep all of them
+  const recent =
+    options.recentThoughts > 0 ? lineage.slice(-options.recentThoughts) : [];
+  const older = lineage.slice(0, lineage.length - recent.length);
+  const recentTexts: string[] = [];
+  const recentBudget = Math.max(0, Math.floor(remaining * 0.75));
+  let recentUsed = 0;
+
+  for (let i = recent.length - 1; i >= 0; i--) {
+    const share = Math.floor((recentBudget - recentUsed) / (i + 1));
+    const text = truncateToTokens(
+      recent[i].answer,
+      Math.max(0, share),
+      `Thought #${recent[i].thoughtNumber}`,
+    );
+    recentUsed += estimateTokens(text);
+    recentTexts.unshift(text);
+  }
+  remaining -= recentUsed;
+
+  // Older thoughts collapse into one line each, dropping the oldest when over budget
+  const summaryLines = older.map(
+    (t) =>
+      `- Thought #${t.thoughtNumber}${t.branchId ? ` (branch ${t.branchId})` : ""}: ${summarizeThought(t)}`,
+  );
+  let omittedCount = 0;
+  while (
+    summaryLines.length > 0 &&
+    estimateTokens(summaryLines.join("\n")) > Math.max(0, remaining)
+  ) {
+    summaryLines.shift();
+    omittedCount++;
+  }
+  if (omittedCount > 0) {
+    summaryLines.unshift(
+      `[... ${omittedCount} earlier thought(s) omitted to fit the context budget ...]`,
+    );
+  }
+
+  return {
+    runningSummary: summaryLines.join("\n"),
+    recentThoughts: recent,
+    recentThoughtTexts: recentTexts,
+    userContext: fittedUserContext,
+    externalToolResult: fittedToolResult,
+  };
+}
@@ -0,0 +1,152 @@
+// src/modules/sequential/debate.ts
+import { z } from "zod";
+import { truncateToTokens } from "./context-window";
+import { parseJudgeJson } from "./synthesis";
+
+// A model's turn in a cross-model debate over one thought
+export type DebateTurn = {
+  debateId: string;
+  round: number;
+  rounds: number;
+  // Every participant's latest position from the previous round; empty for opening positions
+  positions: Array<{ profile: string; answer: string }>;
+};
+
+export const DebateSummarySchema = z.object({
+  settled: z
+    .array(
+      z.object({
+        point: z.string(),
+        models: z.array(z.string()),
+      }),
+    )
+    .default([]),
+  contested: z
+    .array(
+      z.object({
+        point: z.string(),
+        positions: z.array(
+          z.object({
+            model: z.string(),
+            position: z.string(),
+          }),
+        ),
+      }),
+    )
+    .default([]),
+});
+
+export type DebateSummary = z.infer<typeof DebateSummarySchema>;
+
+// Prompt section showing a model the other positions it has to answer
+export function buildDebateSection(
+  turn: DebateTurn,
+  profile: string,
+  budgetTokens: number,
+): string {
+  const own = turn.positions.find((position) => position.profile === profile);
+  const opponents = turn.positions.filter(
+    (position) => position.profile !== profile,
+  );
+  if (turn.round === 0 || opponents.length === 0) return "";
+
+  // Positions share about a third of the budget
+  const perPosition = Math.floor(budgetTokens / 3 / turn.positions.length);
+  const opposing = opponents
+    .map(
+      (position) =>
+        `Position of ${position.profile}:\n${truncateToTokens(position.answer, perPosition, `${position.profile} position`)}`,
+    )
+    .join("\n\n");
+
+  return `
+
+**Debate Round ${turn.round} of ${turn.rounds}:**
+Other models answered this same thought. Their latest positions follow, then yours.
+
+${opposing}
+${own ? `\nYour previous position:\n${truncateToTokens(own.answer, perPosition, "previous position")}\n` : ""}
+Address every opposing point. Start each with "Rebuttal:" where you still disagree and explain why, or "Concession:" where the other model is right. Finish with your updated position.
+`;
+}
+
+export function buildDebateSummaryPrompts(
+  originalQuery: string,
+  currentThinking: string,
+  finalPositions: Array<{ profile: string; answer: string }>,
+): { systemPrompt: string; userPrompt: string } {
+  const systemPrompt = `You are a judge closing a debate between several models.
+Report only what the models actually argued, and attribute every point to the models that hold it using their exact names.`;
+
+  const userPrompt = `
+**Original Request:** ${originalQuery}
+
+**Debated Thinking:** ${currentThinking}
+
+**Final Positions:**
+
+${finalPositions.map((position) => `### Model: ${position.profile}\n\n${position.answer}`).join("\n\n")}
+
+**Your Task:**
+List the points every model now accepts as settled, and the points still contested with each model's position. Respond with a single JSON object in a \`\`\`json code block and nothing else:
+
+\`\`\`json
+{
+  "settled": [{ "point": "A point the models agree on", "models": ["model names"] }],
+  "contested": [
+    {
+      "point": "A point still in dispute",
+      "positions": [{ "model": "model name", "position": "What this model holds" }]
+    }
+  ]
+}
+\`\`\`
+
+Use only these model names: ${finalPositions.map((position) => position.profile).join(", ")}.
+`;
+
+  return { systemPrompt, userPrompt };
+}
+
+export function parseDebateSummary(
+  text: string,
+  profiles: string[],
+): DebateSummary {
+  const summary = parseJudgeJson(text, DebateSummarySchema);
+  const known = (model: string) => profiles.includes(model);
+  return {
+    settled: summary.settled.map((point) => ({
+      ...point,
+      models: point.models.filter(known),
+    })),
+    contested: summary.contested.map((point) => ({
+      ...point,
+      positions: point.positions.filter((position) => known(position.model)),
+    })),
+  };
+}
+
+export function formatDebateSummary(summary: DebateSummary): string {
+  const settled =
+    summary.settled.length > 0
+      ? summary.settled
+          .map(
+            (point) =>
+              `- ${point.point}${point.models.length > 0 ? ` [${point.models.join(", ")}]` : ""}`,
+          )
+          .join("\n")
+      : "- None";
+  const contested =
+    summary.contested.length > 0
+      ? summary.contested
+          .map(
+            (point) =>
+              `- ${point.point}\n${point.positions
+                .map((position) => `  - ${position.model}: ${position.position}`)
+                .join("\n")}`,
+          )
+          .join("\n")
+      : "- None";
+
+  return `Settled:\n${settled}\n\nStill Contested:\n${contested}`;
+}
@@ -1,175 +1,528 @@
-// import { GeminiSequentialThinkingServer } from "./gemini";
+import { randomUUID } from "crypto";
 import { z } from "zod";
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { LocalToolRunner, ToolExecution } from "../code/local-tools";
+import { CodeContextResolver } from "../code/resolver";
+import { SymbolIndex } from "../code/symbols";
+import { DEFAULT_IGNORED_NAMES, ReasonConfig } from "../config";
+import { GenerationError } from "../providers/errors";
+import type { ThinkingOptions } from "./base";
+import {
+  buildDebateSummaryPrompts,
+  formatDebateSummary,
+  parseDebateSummary,
+} from "./debate";
+import { ModeRegistry } from "./modes";
+import type { ToolRequest } from "./tool-requests";
+import {
+  SynthesisInput,
+  buildSynthesisPrompts,
+  formatSynthesis,
+  parseSynthesis,
+} from "./synthesis";
 import { SequentialThinkingSchema } from "./utils";
-import { OpenRouterSequentialThinkingServer } from "../providers/openrouter";
-
-// Define an enum for model selection
-export enum ModelType {
-  GEMINI = "gemini",
-  DEEPSEEK = "deepseek",
-  ALL = "all",
-}
+import { ALL_PROFILES, ProviderRegistry } from "../providers/registry";
+import {
+  AVAILABLE_TOOL_JSON_SCHEMA,
+  ReasoningSession,
+  SessionManager,
+} from "../session";
 
 // Extend the schema to include model selection
 export const CombinedSequentialThinkingSchema = SequentialThinkingSchema.extend(
   {
     modelType: z
-      .nativeEnum(ModelType)
-      .default(ModelType.ALL)
+      .union([z.string(), z.array(z.string()).min(1)])
+      .default(ALL_PROFILES)
       .describe(
-        "Which model to use for generating thoughts: 'gemini', 'deepseek', or 'all'",
+        "Which model profile(s) to use for generating thoughts: a profile name, a list of profile names, or 'all' for every enabled profile",
+      ),
+    progressPartialText: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Include streamed partial text in progress notifications when the request carries a progress token",
+      ),
+    includeReasoning: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Return each model's raw reasoning trace next to its answer. The trace is always stored in the session",
+      ),
+    synthesize: z
+      .boolean()
+      .default(false)
+      .describe(
+        "With several profiles, have the judge profile merge their answers into agreements, contradictions and ranked actions attributed to each model",
+      ),
+    strategy: z
+      .enum(["parallel", "debate"])
+      .default("parallel")
+      .describe(
+        "How several profiles work together: independent answers in parallel, or a debate where each model rebuts or concedes the others' positions",
+      ),
+    debateRounds: z
+      .number()
+      .int()
+      .min(1)
+      .max(5)
+      .optional()
+      .describe("Rebuttal rounds for the debate strategy. Defaults to the configured debate.rounds"),
+    samples: z
+      .number()
+      .int()
+      .min(2)
+      .max(10)
+      .optional()
+      .describe(
+        "Self-consistency: draw this many samples per profile, cluster their conclusions and return the majority position with its agreement ratio and dissents. Not available with the debate strategy",
+      ),
+    runLocalTools: z
+      .boolean()
+      .optional()
+      .describe(
+        "Let the server run the grep, read_file, list_directory and find_symbol requests of each thought itself and generate again with the results. Defaults to the configured localTools.enabled",
       ),
   },
-);
+).superRefine((args, ctx) => {
+  // Debate turns are single generations, so sampling them would be silently dropped
+  if (args.strategy === "debate" && args.samples !== undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["samples"],
+      message: "Self-consistency sampling is not available with the debate strategy",
+    });
+  }
+});
+
+// Provider failures are JSON payloads with an error kind; anything else is kept as text
+const parseErrorPayload = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
 
 export class CombinedSequentialThinkingServer {
-  // private geminiServer: GeminiSequentialThinkingServer;
-  private geminiServer: OpenRouterSequentialThinkingServer;
-  private deepseekServer: OpenRouterSequentialThinkingServer;
+  private registry: ProviderRegistry;
+  private sessions: SessionManager;
+  private synthesis: ReasonConfig["synthesis"];
+  private debateRounds: number;
+  private selfConsistency: ReasonConfig["selfConsistency"];
+  private modes: ModeRegistry;
+  private codeResolver: CodeContextResolver;
+  private localTools: LocalToolRunner;
+  private localToolsEnabled: boolean;
 
   constructor(
-    // geminiApiKey: string = process.env.GEMINI_API_KEY ?? "",
-    openRouterApiKey: string = process.env.OPENROUTER_API_KEY ?? "",
-    deepseekModel: string = process.env.OPENROUTER_MODEL ??
-      "deepseek/deepseek-r1:free",
+    registry: ProviderRegistry,
+    sessions: SessionManager,
+    modes: ModeRegistry = new ModeRegistry(),
+    config: Partial<
+      Pick<
+        ReasonConfig,
+        "synthesis" | "debate" | "selfConsistency" | "workspace" | "localTools"
+      >
+    > = {},
+    // Index behind the find_symbol local tool, shared with the find-symbol tool when given
+    symbolIndex?: SymbolIndex,
   ) {
-    // this.geminiServer = new GeminiSequentialThinkingServer(geminiApiKey);
-    this.geminiServer = new OpenRouterSequentialThinkingServer(
-      openRouterApiKey,
-      "google/gemini-2.5-pro-exp-03-25:free"
-    )
-    this.deepseekServer = new OpenRouterSequentialThinkingServer(
-      openRouterApiKey,
-      deepseekModel,
+    this.registry = registry;
+    this.sessions = sessions;
+    this.modes = modes;
+    this.synthesis = config.synthesis ?? {};
+    this.debateRounds = config.debate?.rounds ?? 2;
+    this.selfConsistency = config.selfConsistency ?? {
+      concurrency: 3,
+      similarityThreshold: 0.35,
+    };
+    const workspace = config.workspace ?? {
+      roots: [],
+      maxFileBytes: 512000,
+      maxLines: 400,
+      maxTotalBytes: 200000,
+      maxIndexFiles: 5000,
+    };
+    this.codeResolver = new CodeContextResolver(workspace);
+    const localTools = config.localTools ?? {
+      enabled: false,
+      maxRounds: 2,
+      maxOutputBytes: 8000,
+      maxMatches: 50,
+      ignore: DEFAULT_IGNORED_NAMES,
+    };
+    this.localToolsEnabled = localTools.enabled;
+    this.localTools = new LocalToolRunner(
+      this.codeResolver,
+      localTools,
+      workspace,
+      symbolIndex ?? new SymbolIndex(workspace),
     );
   }
 
-  // Process sequential thinking using both or selected models
+  // Ask the judge profile to merge the per-model answers into one attributed critique
+  private async synthesize(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    originalQuery: string,
+    inputs: SynthesisInput[],
+    profileNames: string[],
+    options: ThinkingOptions,
+  ): Promise<{ type: string; text: string }> {
+    const judge = this.synthesis.judge ?? profileNames[0];
+    const heading = `=== SYNTHESIS (JUDGE: ${judge.toUpperCase()}) ===`;
+
+    if (inputs.length < 2) {
+      return {
+        type: "text",
+        text: `${heading}\n\nSynthesis skipped: it needs answers from at least two models, got ${inputs.length}.`,
+      };
+    }
+
+    try {
+      const { systemPrompt, userPrompt } = buildSynthesisPrompts(
+        originalQuery,
+        args.currentThinking,
+        args.thoughtNumber,
+        inputs,
+      );
+      const completion = await this.registry
+        .get(judge)
+        .runPrompt(systemPrompt, userPrompt, options);
+      const synthesis = parseSynthesis(
+        completion.answer || completion.reasoning,
+        inputs.map((input) => input.profile),
+      );
+
+      return {
+        type: "text",
+        text: `
+${heading}
+
+${formatSynthesis(synthesis)}
+
+META:
+- Judge Profile: ${judge}
+- Judge Model: ${completion.model}
+- Sources: ${inputs.map((input) => input.profile).join(", ")}
+- Truncated: ${completion.truncated ? "Yes" : "No"}
+`.trim(),
+      };
+    } catch (error) {
+      return {
+        type: "text",
+        text: `${heading}\n\nSynthesis failed: ${error instanceof GenerationError ? JSON.stringify(error.toPayload(), null, 2) : error}`,
+      };
+    }
+  }
+
+  // Opening positions, then rounds in which every model answers the others' latest positions.
+  // Each turn is stored as a thought linked by debate id and round; the judge closes the debate
+  private async debate(
+    args: z.infer<typeof SequentialThinkingSchema>,
+    profileNames: string[],
+    session: ReasoningSession,
+    rounds: number,
+    options: ThinkingOptions,
+  ): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    const debateId = randomUUID();
+    let positions: Array<{ profile: string; model: string; answer: string }> =
+      [];
+    const failures: Record<string, unknown> = {};
+    let completedRounds = 0;
+
+    for (let round = 0; round <= rounds; round++) {
+      const participants =
+        round === 0 ? profileNames : positions.map((position) => position.profile);
+      if (participants.length < 2) break;
+
+      // Rebuttals restate the same thought, they do not revise anything again
+      const roundArgs =
+        round === 0
+          ? args
+          : { ...args, isRevision: undefined, revisesThought: undefined };
+      const results = await Promise.all(
+        participants.map((name) =>
+          this.registry.get(name).processSequentialThinking(roundArgs, session, {
+            ...options,
+            debate: { debateId, round, rounds, positions },
+          }),
+        ),
+      );
+
+      // A model that fails a round keeps its previous position
+      positions = participants.flatMap((name, index) => {
+        const result = results[index];
+        if (result.isError) {
+          failures[`${name} (round ${round})`] = parseErrorPayload(
+            result.content[0].text,
+          );
+          return positions.filter((position) => position.profile === name);
+        }
+        const data = JSON.parse(result.content[0].text);
+        return [{ profile: name, model: data.model, answer: data.answer }];
+      });
+      completedRounds = round;
+    }
+
+    if (positions.length < 2) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                error: "A debate needs opening positions from at least two models",
+                errors: failures,
+                status: "failed",
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const content = positions.map((position) => ({
+      type: "text",
+      text: `
+=== ${position.profile.toUpperCase()} (FINAL POSITION, THOUGHT #${args.thoughtNumber}) ===
+
+${position.answer}
+
+META:
+- Model Profile: ${position.profile}
+- Model: ${position.model}
+- Session: ${session.id}
+- Debate: ${debateId} (${completedRounds} of ${rounds} rounds)
+- Thought Number: ${args.thoughtNumber}
+- Next Thought Needed: ${args.nextThoughtNeeded}
+`.trim(),
+    }));
+
+    const judge = this.synthesis.judge ?? profileNames[0];
+    const heading = `=== DEBATE SUMMARY (JUDGE: ${judge.toUpperCase()}) ===`;
+    try {
+      const { systemPrompt, userPrompt } = buildDebateSummaryPrompts(
+        session.originalQuery,
+        args.currentThinking,
+        positions,
+      );
+      const completion = await this.registry
+        .get(judge)
+        .runPrompt(systemPrompt, userPrompt, options);
+      const summary = parseDebateSummary(
+        completion.answer || completion.reasoning,
+        positions.map((position) => position.profile),
+      );
+      content.push({
+        type: "text",
+        text: `${heading}\n\n${formatDebateSummary(summary)}`,
+      });
+    } catch (error) {
+      content.push({
+        type: "text",
+        text: `${heading}\n\nDebate summary failed: ${error instanceof GenerationError ? JSON.stringify(error.toPayload(), null, 2) : error}`,
+      });
+    }
+
+    if (Object.keys(failures).length > 0) {
+      content.push({
+        type: "text",
+        text: `=== FAILED DEBATE TURNS ===\n\n${JSON.stringify(failures, null, 2)}`,
+      });
+    }
+
+    return { content };
+  }
+
+  // Process sequential thinking using the selected model profile(s)
   public async processSequentialThinking(
     args: z.infer<typeof CombinedSequentialThinkingSchema>,
+    options: ThinkingOptions = {},
   ): Promise<{
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   }> {
     // Extract modelType and prepare args for individual servers
-    const { modelType, ...commonArgs } = args;
+    const {
+      modelType,
+      progressPartialText,
+      includeReasoning,
+      synthesize,
+      strategy,
+      debateRounds,
+      samples,
+      runLocalTools,
+      ...commonArgs
+    } = args;
+    options = {
+      ...options,
+      includeReasoning,
+      localTools:
+        (runLocalTools ?? this.localToolsEnabled) ? this.localTools : undefined,
+    };
 
     try {
-      // Process with selected model(s)
-      if (modelType === ModelType.GEMINI) {
-        // Use only Gemini
-        return await this.geminiServer.processSequentialThinking(commonArgs);
-      } else if (modelType === ModelType.DEEPSEEK) {
-        // Use only DeepSeek
-        return await this.deepseekServer.processSequentialThinking(commonArgs);
-      } else {
-        // Use both models and combine results
-        const [geminiResult, deepseekResult] = await Promise.all([
-          this.geminiServer.processSequentialThinking(commonArgs),
-          this.deepseekServer.processSequentialThinking(commonArgs),
-        ]);
-
-        // Check for errors
-        if (geminiResult.isError && deepseekResult.isError) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    error: "Both models returned errors",
-                    geminiError: geminiResult.content[0].text,
-                    deepseekError: deepseekResult.content[0].text,
-                    status: "failed",
-                  },
-                  null,
-                  2,
-                ),
-              },
-            ],
-            isError: true,
-          };
-        }
+      options.mode = this.modes.get(commonArgs.reasoningMode);
+      const profileNames = this.registry.resolve(modelType);
+      const session = await this.sessions.resolve(commonArgs.sessionId);
 
-        // Parse results
-        let geminiData, deepseekData;
+      // Read path-only code context files once, so every model sees the same code
+      if (typeof commonArgs.userContext === "object") {
+        commonArgs.userContext = await this.codeResolver.resolve(
+          commonArgs.userContext,
+        );
+      }
 
-        try {
-          if (!geminiResult.isError) {
-            geminiData = JSON.parse(geminiResult.content[0].text);
-          }
+      if (strategy === "debate") {
+        if (profileNames.length < 2) {
+          throw new Error("The debate strategy needs at least two model profiles");
+        }
+        const result = await this.debate(
+          commonArgs,
+          profileNames,
+          session,
+          debateRounds ?? this.debateRounds,
+          options,
+        );
+        await this.sessions.save(session);
+        return result;
+      }
 
-          if (!deepseekResult.isError) {
-            deepseekData = JSON.parse(deepseekResult.content[0].text);
-          }
+      // Everything but debate may be sampled for self-consistency
+      if (samples) {
+        options = {
+          ...options,
+          selfConsistency: { samples, ...this.selfConsistency },
+        };
+      }
 
-          // Format Gemini thought
-          const geminiThought =
-            geminiData?.thought || "Gemini processing failed";
+      // A single profile returns its provider response untouched
+      if (profileNames.length === 1) {
+        const result = await this.registry
+          .get(profileNames[0])
+          .processSequentialThinking(commonArgs, session, options);
+        await this.sessions.save(session);
+        return result;
+      }
 
-          // Format DeepSeek thought
-          const deepseekThought =
-            deepseekData?.thought || "DeepSeek processing failed";
+      // Fan out to every selected profile and combine results; each profile is bounded by
+      // its own timeout, so a stuck model returns partial text instead of holding up the rest
+      const results = await Promise.all(
+        profileNames.map((name) =>
+          this.registry
+            .get(name)
+            .processSequentialThinking(commonArgs, session, options),
+        ),
+      );
+      await this.sessions.save(session);
 
-          // Format Gemini response text
-          const geminiResponseText = `
-=== GEMINI (THOUGHT #${args.thoughtNumber}) ===
+      // Check for errors
+      if (results.every((result) => result.isError)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  error: "All models returned errors",
+                  errors: Object.fromEntries(
+                    profileNames.map((name, index) => [
+                      name,
+                      parseErrorPayload(results[index].content[0].text),
+                    ]),
+                  ),
+                  status: "failed",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
 
-${geminiThought}
+      let outputs;
+      try {
+        outputs = results.map((result) =>
+          result.isError ? undefined : JSON.parse(result.content[0].text),
+        );
+      } catch (parseError) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  error: "Error parsing model results",
+                  details: String(parseError),
+                  status: "failed",
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+          isError: true,
+        };
+      }
 
-META:
-- Thought Number: ${args.thoughtNumber}
-- Total Thoughts: ${args.totalThoughts}
-- Next Thought Needed: ${args.nextThoughtNeeded}
-- Suggested Tool: ${geminiData?.suggestedToolUse ? JSON.stringify(geminiData.suggestedToolUse) : "None"}
-`.trim();
+      const content = profileNames.map((name, index) => {
+        const result = results[index];
+        const data = outputs[index];
+        const label = name.toUpperCase();
 
-          // Format DeepSeek response text
-          const deepseekResponseText = `
-=== DEEPSEEK (THOUGHT #${args.thoughtNumber}) ===
+        return {
+          type: "text",
+          text: `
+=== ${label} (THOUGHT #${args.thoughtNumber}) ===
 
-${deepseekThought}
+${data ? `${data.reasoning ? `--- Reasoning ---\n${data.reasoning}\n\n--- Answer ---\n` : ""}${data.answer}` : `${label} processing failed: ${result.content[0].text}`}
 
 META:
+- Model Profile: ${name}
+- Model: ${data?.model ?? "None"}${data?.fallbackProfile ? ` (fallback profile ${data.fallbackProfile})` : ""}
+- Session: ${session.id}
 - Thought Number: ${args.thoughtNumber}
 - Total Thoughts: ${args.totalThoughts}
 - Next Thought Needed: ${args.nextThoughtNeeded}
-- Suggested Tool: ${deepseekData?.suggestedToolUse ? JSON.stringify(deepseekData.suggestedToolUse) : "None"}
-`.trim();
+- Truncated: ${data?.timedOut ? "Yes (timed out, partial thought)" : "No"}${data?.consistency ? `\n- Consistency: ${Math.round(data.consistency.agreementRatio * data.consistency.samples)}/${data.consistency.samples} samples agree (${Math.round(data.consistency.agreementRatio * 100)}%), ${data.consistency.dissents.length} dissenting position(s)` : ""}
+- Tool Requests: ${data?.toolRequests ? data.toolRequests.map((request: ToolRequest) => `${request.toolType} (${request.priority}): ${request.query}`).join("; ") : "None"}${data?.toolExecutions ? `\n- Local Tools Run: ${data.toolExecutions.map((execution: ToolExecution) => `${execution.toolType} "${execution.query}"${execution.ok ? "" : " (failed)"}`).join("; ")}` : ""}
+`.trim(),
+        };
+      });
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: geminiResponseText,
-              },
-              {
-                type: "text",
-                text: deepseekResponseText,
-              },
-            ],
-          };
-        } catch (parseError) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    error: "Error parsing model results",
-                    details: String(parseError),
-                    status: "failed",
-                  },
-                  null,
-                  2,
-                ),
-              },
-            ],
-            isError: true,
-          };
-        }
+      // Optional judge pass that reconciles the answers that came back
+      if (synthesize) {
+        content.push(
+          await this.synthesize(
+            commonArgs,
+            session.originalQuery,
+            profileNames.flatMap((name, index) =>
+              outputs[index]
+                ? [
+                    {
+                      profile: name,
+                      model: outputs[index].model,
+                      answer: outputs[index].answer,
+                    },
+                  ]
+                : [],
+            ),
+            profileNames,
+            options,
+          ),
+        );
       }
+
+      return { content };
     } catch (error) {
       return {
         content: [
@@ -195,13 +548,13 @@ META:
 export const GEMINI_DEEPSEEK_SEQUENTIAL_TOOL: Tool = {
   name: "combined-sequential-thinking",
   description: `
-    A powerful tool for structured, methodical problem-solving through OpenRouter-powered sequential thinking. This tool generates thoughts following a specific 5-step reasoning structure:
+    A powerful tool for structured, methodical problem-solving through sequential thinking. Every thought follows the steps of the selected reasoning mode. The default analytical mode uses five steps:
 
-    1. Identify the user's question: Clarify what's being asked and the core problem to solve
-    2. Recall internal knowledge: Access relevant information and context needed for the solution
+    1. Identify the question: Clarify what's being asked and the core problem to solve
+    2. Recall relevant knowledge: Access relevant information and context needed for the solution
     3. Formulate the answer: Develop an initial response based on the identified question and recalled knowledge
     4. Refine the answer: Improve clarity, accuracy, and relevance of the initial response
-    5. Self-Correction/Refinement: Review for errors or improvements before finalizing
+    5. Self-correct: Review for errors or improvements before finalizing
 
     When to use this tool:
     - Breaking down complex problems into structured steps 
@@ -212,22 +565,29 @@ export const GEMINI_DEEPSEEK_SEQUENTIAL_TOOL: Tool = {
     - Tasks that need to maintain context over multiple steps 
     
     Key features: 
-    - OpenRouter models generate each thought using the structured 5-step reasoning process
-    - Thoughts can be revised or branched into alternative directions
-    - Multiple reasoning modes (analytical, creative, critical, reflective)
+    - Every model generates each thought with the system prompt, steps and answer sections of the selected reasoning mode
+    - Thoughts can be revised or branched into alternative directions; each branch only sees its own lineage
+    - Isolated reasoning sessions keep unrelated problems and clients apart
+    - Built-in reasoning modes (analytical, creative, critical, reflective) plus custom modes such as 'security-review' defined in the config file; list-reasoning-modes shows them all
+    - Model profiles are loaded from a config file; select one, several, or all of them
+    - Fully offline reasoning through a local Ollama profile (modelType 'ollama' by default)
+    - Rate limits and server errors are retried with backoff, then handed to the profile's fallback chain; responses name the model that produced the thought
+    - Per-profile timeouts: a model that runs too long returns its partial thought flagged as truncated/timedOut without holding up the others
     - Automatically suggests when more thinking might be needed
-    - Can detect when to use other tools and integrate their results
+    - Models list the tools they need in a structured block: several requests per thought, each with a rationale and priority
     - Can incorporate user-provided context like code snippets or documents
     
     Usage workflow:
+    0. Optionally call start-reasoning-session and pass the returned sessionId on every call
     1. Start with an initial question/problem in the currentThinking parameter
-    2. For subsequent calls, use the generated thought as the currentThinking parameter
-    3. If a tool is suggested, use that tool and pass the results via externalToolResult
+    2. For subsequent calls, use the returned answer as the currentThinking parameter
+    3. If the response carries toolRequests, run them highest priority first and pass the results via externalToolResult. With runLocalTools the server runs grep, read_file, list_directory and find_symbol requests itself and lists them as toolExecutions
     4. Optionally revise previous thoughts or branch into new directions
     5. Continue until a satisfactory conclusion is reached
     
     Parameters explained:
-    - currentThinking: A structured representation of the evolving thought process. MUST be different than other thoughts, and incorporate previous thinking and explicitly follow the 5-step reasoning structure. For each thought, include:
+    - sessionId: Reasoning session to record this thought in. Omit to use the shared default session
+    - currentThinking: A structured representation of the evolving thought process. MUST be different than other thoughts, and incorporate previous thinking and explicitly follow the steps of the selected reasoning mode. For each thought, include:
         * Original question/problem statement
         * Current step number (1-n) and its purpose
         * Summary of previous step's conclusions
@@ -240,20 +600,34 @@ export const GEMINI_DEEPSEEK_SEQUENTIAL_TOOL: Tool = {
     - totalThoughts: Current estimate of thoughts needed (can be adjusted up/down)
     - nextThoughtNeeded: True if you need more thinking, even if at what seemed like the end
     - isRevision: A boolean indicating if this thought revises previous thinking
-    - revisesThought: If isRevision is true, which thought number is being reconsidered
+    - revisesThought: If isRevision is true, which thought number is being reconsidered. The model sees the current version of that thought verbatim, the old version stops being used as context, and the response includes a summary of what changed
     - branchFromThought: If branching, which thought number is the branching point
-    - branchId: Identifier for the current branch (if any)
+    - branchId: Identifier for the current branch (if any). Keep passing it for every thought on that branch; list-reasoning-branches shows all branches and their heads
     - needsMoreThoughts: If reaching end but realizing more thoughts needed
-    - reasoningMode: The style of reasoning to apply (analytical, creative, critical, reflective)
+    - reasoningMode: Which reasoning mode to apply: 'analytical' (default) for step-by-step analysis, 'creative' for divergent alternatives, 'critical' for constructive critique, 'reflective' for reviewing earlier reasoning, or the name of a custom mode from the config file
     - externalToolResult: Optional results from another tool to incorporate into thinking
-    - userContext: Optional context provided by the user, such as code snippets or relevant documents. Highly encouraged to utilize this field
+    - userContext: Optional context provided by the user, such as code snippets or relevant documents. Highly encouraged to utilize this field. In a codeContext, files may give just a path and line range and the server reads the code from its workspace roots; a git source (working-tree, staged, range or base) makes the server attach the diff, touched files and optional blame for review
+    - availableTools: The tools you can run, with names, descriptions and input schemas. Tool requests then name one of them with arguments that validate against its schema; invalid ones come back as rejectedToolRequests. Register them once per session with register-available-tools instead of repeating them
+    - progressPartialText: When the request carries a progress token, progress notifications are sent while models stream; set this to also include the partial text
+    - strategy: 'parallel' (default) for independent answers, or 'debate' where the models see each other's positions over several rounds, rebut or concede, and a judge lists settled and contested points. Every round is stored in the session
+    - debateRounds: Number of rebuttal rounds for the debate strategy
+    - samples: Self-consistency sampling. Each profile answers this many times concurrently; the conclusions are clustered and the response carries the majority answer, the agreement ratio and any dissenting conclusions. Costs one generation per sample. Rejected together with the debate strategy
+    - runLocalTools: Let the server run read-only grep, read_file, list_directory and find_symbol requests under its workspace roots, then generate the thought again with the results, up to the configured number of rounds. Each run is recorded as a toolExecution on the thought
+    - synthesize: With several profiles, append a judge pass that lists points of agreement, contradictions and ranked recommended actions, each attributed to its source model
+    - includeReasoning: Also return each model's raw reasoning trace next to its answer. Off by default because traces are long; they are always kept in the session
+    - modelType: Which model profile generates the thought. A profile name (defaults: 'gemini', 'deepseek', 'ollama' for a local model that sends nothing off the machine), a list of profile names, or 'all' for every enabled profile
     `,
   inputSchema: {
     type: "object",
     properties: {
+      sessionId: {
+        type: "string",
+        description:
+          "Reasoning session to record this thought in. Omit to use the shared default session",
+      },
       currentThinking: {
         type: "string",
-        description: `A structured representation of the evolving thought process. MUST incorporate previous thinking and explicitly follow the 5-step reasoning structure. For each thought, include:
+        description: `A structured representation of the evolving thought process. MUST incorporate previous thinking and explicitly follow the steps of the selected reasoning mode. For each thought, include:
         * Original question/problem statement
         * Current step number (1-n) and its purpose
         * Summary of previous step's conclusions
@@ -301,9 +675,9 @@ export const GEMINI_DEEPSEEK_SEQUENTIAL_TOOL: Tool = {
       },
       reasoningMode: {
         type: "string",
-        enum: ["analytical", "creative", "critical", "reflective"],
         default: "analytical",
-        description: "The style of reasoning to apply",
+        description:
+          "Reasoning mode that sets the system prompt, steps and answer sections: analytical, creative, critical, reflective, or a custom mode from the config file",
       },
       externalToolResult: {
         type: "object",
@@ -328,7 +702,66 @@ export const GEMINI_DEEPSEEK_SEQUENTIAL_TOOL: Tool = {
       userContext: {
         type: "string",
         description:
-          "Additional context provided by the user, such as code snippets, relevant documents, or background information",
+          "Additional context provided by the user, such as code snippets, relevant documents, or background information. A codeContext object may list files by path and line range only, or name a git source whose diff the server collects; both are read from its configured workspace roots",
+      },
+      availableTools: {
+        type: "array",
+        items: AVAILABLE_TOOL_JSON_SCHEMA,
+        description:
+          "Tools the client can run, so tool requests name real tools with valid arguments. Added to those registered on the session",
+      },
+      modelType: {
+        oneOf: [
+          { type: "string" },
+          { type: "array", items: { type: "string" }, minItems: 1 },
+        ],
+        default: "all",
+        description:
+          "Which model profile(s) to use for generating thoughts: a profile name, a list of profile names, or 'all' for every enabled profile",
+      },
+      progressPartialText: {
+        type: "boolean",
+        default: false,
+        description:
+          "Include streamed partial text in progress notifications when the request carries a progress token",
+      },
+      includeReasoning: {
+        type: "boolean",
+        default: false,
+        description:
+          "Return each model's raw reasoning trace next to its answer. The trace is always stored in the session",
+      },
+      synthesize: {
+        type: "boolean",
+        default: false,
+        description:
+          "With several profiles, have the judge profile merge their answers into agreements, contradictions and ranked actions attributed to each model",
+      },
+      strategy: {
+        type: "string",
+        enum: ["parallel", "debate"],
+        default: "parallel",
+        description:
+          "How several profiles work together: independent answers in parallel, or a debate where each model rebuts or concedes the others' positions",
+      },
+      debateRounds: {
+        type: "integer",
+        minimum: 1,
+        maximum: 5,
+        description:
+          "Rebuttal rounds for the debate strategy. Defaults to the configured debate.rounds",
+      },
+      samples: {
+        type: "integer",
+        minimum: 2,
+        maximum: 10,
+        description:
+          "Self-consistency: draw this many samples per profile, cluster their conclusions and return the majority position with its agreement ratio and dissents. Not available with the debate strategy",
+      },
+      runLocalTools: {
+        type: "boolean",
+        description:
+          "Let the server run the grep, read_file, list_directory and find_symbol requests of each thought itself and generate again with the results. Defaults to the configured localTools.enabled",
       },
       // userContext: {
       //   type: "codeContext",
@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import type { ReasoningSession } from "../session";
+import { TRUNK, describeBranches, getBranchOrigin, getLineage } from "./lineage";
+import type { ThoughtData } from "./utils";
+
+const thought = (
+  thoughtNumber: number,
+  fields: Partial<ThoughtData> = {},
+): ThoughtData => ({
+  originalQuery: "query",
+  currentThinking: "thinking",
+  thoughtNumber,
+  totalThoughts: 5,
+  nextThoughtNeeded: true,
+  answer: `answer ${thoughtNumber}${fields.branchId ?? ""}`,
+  ...fields,
+});
+
+const answers = (thoughts: ThoughtData[]) => thoughts.map((t) => t.answer);
+
+describe("getLineage", () => {
+  test("returns the earlier trunk thoughts in order", () => {
+    const thoughts = [thought(2), thought(1), thought(3)];
+    expect(answers(getLineage(thoughts, { thoughtNumber: 3 }))).toEqual([
+      "answer 1",
+      "answer 2",
+    ]);
+  });
+
+  test("keeps only the latest record of a re-run thought number", () => {
+    const thoughts = [
+      thought(1),
+      thought(2, { answer: "first run" }),
+      thought(2, { answer: "second run" }),
+    ];
+    expect(answers(getLineage(thoughts, { thoughtNumber: 3 }))).toEqual([
+      "answer 1",
+      "second run",
+    ]);
+  });
+
+  test("follows a branch back to its branch point on the trunk", () => {
+    const thoughts = [
+      thought(1),
+      thought(2),
+      thought(3),
+      thought(3, { branchId: "B", branchFromThought: 2 }),
+      thought(4, { branchId: "B", branchFromThought: 2 }),
+    ];
+    expect(
+      answers(getLineage(thoughts, { thoughtNumber: 5, branchId: "B" })),
+    ).toEqual(["answer 1", "answer 2", "answer 3B", "answer 4B"]);
+  });
+
+  test("uses the position's branch point for a branch without thoughts yet", () => {
+    const thoughts = [thought(1), thought(2), thought(3)];
+    expect(
+      answers(
+        getLineage(thoughts, {
+          thoughtNumber: 3,
+          branchId: "B",
+          branchFromThought: 2,
+        }),
+      ),
+    ).toEqual(["answer 1", "answer 2"]);
+  });
+
+  test("walks nested branches through the branch holding the branch point", () => {
+    const thoughts = [
+      thought(1),
+      thought(2),
+      thought(3, { branchId: "B", branchFromThought: 2 }),
+      thought(4, { branchId: "B", branchFromThought: 2 }),
+      thought(5, { branchId: "C", branchFromThought: 4 }),
+    ];
+    expect(
+      answers(getLineage(thoughts, { thoughtNumber: 6, branchId: "C" })),
+    ).toEqual(["answer 1", "answer 2", "answer 3B", "answer 4B", "answer 5C"]);
+  });
+
+  test("replaces a superseded thought with its current version", () => {
+    const thoughts = [
+      thought(1),
+      thought(2, { supersededBy: 4 }),
+      thought(3),
+      thought(4, { isRevision: true, revisesThought: 2, answer: "revised 2" }),
+      thought(3, { branchId: "B", branchFromThought: 2 }),
+      thought(4, { branchId: "B", branchFromThought: 2 }),
+    ];
+
+    // The trunk already holds the revision at its own number
+    expect(answers(getLineage(thoughts, { thoughtNumber: 5 }))).toEqual([
+      "answer 1",
+      "answer 3",
+      "revised 2",
+    ]);
+    // A branch forked at the revised thought sees the revision in its place
+    expect(
+      answers(getLineage(thoughts, { thoughtNumber: 5, branchId: "B" })),
+    ).toEqual(["answer 1", "revised 2", "answer 3B", "answer 4B"]);
+  });
+
+  test("stops at branches that point back at each other", () => {
+    const thoughts = [
+      thought(3, { branchId: "A", branchFromThought: 3 }),
+      thought(3, { branchId: "B", branchFromThought: 3 }),
+    ];
+    expect(
+      answers(getLineage(thoughts, { thoughtNumber: 4, branchId: "A" })),
+    ).toEqual(["answer 3A"]);
+  });
+});
+
+describe("getBranchOrigin", () => {
+  test("reads the branch point from the branch's first recorded thought", () => {
+    const thoughts = [
+      thought(3, { branchId: "B", branchFromThought: 2 }),
+      thought(4, { branchId: "B", branchFromThought: 3 }),
+    ];
+    expect(getBranchOrigin(thoughts, "B")).toBe(2);
+    expect(getBranchOrigin(thoughts, "missing")).toBeUndefined();
+  });
+});
+
+describe("describeBranches", () => {
+  test("lists the trunk first, then each branch with its parent and head", () => {
+    const session: ReasoningSession = {
+      id: "session",
+      originalQuery: "query",
+      thoughtHistory: [
+        thought(1),
+        thought(2),
+        thought(3, { branchId: "B", branchFromThought: 2, profile: "fast" }),
+        thought(4, { branchId: "C", branchFromThought: 3 }),
+      ],
+      branches: { B: [3], C: [4] },
+      createdAt: 0,
+      lastActiveAt: 0,
+    };
+
+    const branches = describeBranches(session);
+    expect(
+      branches.map(({ branchId, branchFromThought, parentBranchId, thoughtNumbers }) => ({
+        branchId,
+        branchFromThought,
+        parentBranchId,
+        thoughtNumbers,
+      })),
+    ).toEqual([
+      { branchId: TRUNK, branchFromThought: 0, parentBranchId: "", thoughtNumbers: [1, 2] },
+      { branchId: "B", branchFromThought: 2, parentBranchId: TRUNK, thoughtNumbers: [3] },
+      { branchId: "C", branchFromThought: 3, parentBranchId: "B", thoughtNumbers: [4] },
+    ]);
+    expect(branches[1].head).toEqual({
+      thoughtNumber: 3,
+      profile: "fast",
+      excerpt: "answer 3B",
+    });
+  });
+});
@@ -0,0 +1,213 @@
+// src/modules/sequential/lineage.ts
+import { z } from "zod";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ReasoningSession } from "../session";
+import { resolveRevisionTarget } from "./revision";
+import type { ThoughtData } from "./utils";
+
+// Label used for thoughts that are not on any named branch
+export const TRUNK = "trunk";
+
+export type ThoughtPosition = {
+  thoughtNumber: number;
+  branchId?: string;
+  branchFromThought?: number;
+};
+
+export type BranchInfo = {
+  branchId: string;
+  branchFromThought: number;
+  parentBranchId: string;
+  thoughtNumbers: number[];
+  head?: {
+    thoughtNumber: number;
+    profile?: string;
+    excerpt: string;
+  };
+};
+
+// Latest record per thought number on one branch before a thought number; re-runs of a
+// number replace earlier ones. A superseded thought gives way to its current version, which
+// takes its place unless the branch already holds it at its own number
+function getBranchThoughts(
+  thoughts: ThoughtData[],
+  branchId: string | undefined,
+  before: number,
+): Array<{ slot: number; thought: ThoughtData }> {
+  const byNumber = new Map<number, ThoughtData>();
+  for (const thought of thoughts) {
+    if (thought.branchId === branchId && thought.thoughtNumber < before) {
+      byNumber.set(thought.thoughtNumber, thought);
+    }
+  }
+
+  const slots: Array<{ slot: number; thought: ThoughtData }> = [];
+  const placed = new Set<ThoughtData>(
+    [...byNumber.values()].filter((t) => t.supersededBy === undefined),
+  );
+  for (const [slot, thought] of [...byNumber].sort(([a], [b]) => a - b)) {
+    if (thought.supersededBy === undefined) {
+      slots.push({ slot, thought });
+      continue;
+    }
+    const current = resolveRevisionTarget(thoughts, thought.thoughtNumber, branchId);
+    if (current && current.supersededBy === undefined && !placed.has(current)) {
+      placed.add(current);
+      slots.push({ slot, thought: current });
+    }
+  }
+  return slots;
+}
+
+// Thought number a branch was forked from, taken from its first recorded thought
+export function getBranchOrigin(
+  thoughts: ThoughtData[],
+  branchId: string,
+): number | undefined {
+  return thoughts.find(
+    (t) => t.branchId === branchId && t.branchFromThought !== undefined,
+  )?.branchFromThought;
+}
+
+// Branch holding the branch point: the trunk if it has that thought, otherwise the earliest branch that does
+function getParentBranch(
+  thoughts: ThoughtData[],
+  branchPoint: number,
+  branchId: string,
+): string | undefined {
+  if (thoughts.some((t) => !t.branchId && t.thoughtNumber === branchPoint)) {
+    return undefined;
+  }
+  return thoughts.find(
+    (t) =>
+      t.branchId !== undefined &&
+      t.branchId !== branchId &&
+      t.thoughtNumber === branchPoint,
+  )?.branchId;
+}
+
+// Thoughts preceding a position along its real lineage: the current branch back to its
+// branch point, then the parent branch (ultimately the trunk) up to and including that point
+export function getLineage(
+  thoughts: ThoughtData[],
+  position: ThoughtPosition,
+  visited: Set<string> = new Set(),
+): ThoughtData[] {
+  const ownThoughts = getBranchThoughts(
+    thoughts,
+    position.branchId,
+    position.thoughtNumber,
+  );
+
+  if (!position.branchId || visited.has(position.branchId)) {
+    return ownThoughts.map(({ thought }) => thought);
+  }
+  visited.add(position.branchId);
+
+  const branchPoint =
+    getBranchOrigin(thoughts, position.branchId) ??
+    position.branchFromThought ??
+    position.thoughtNumber - 1;
+
+  const parentBranchId = getParentBranch(
+    thoughts,
+    branchPoint,
+    position.branchId,
+  );
+  const parentLineage = getLineage(
+    thoughts,
+    {
+      thoughtNumber: branchPoint + 1,
+      branchId: parentBranchId,
+    },
+    visited,
+  );
+
+  return [
+    ...parentLineage,
+    ...ownThoughts
+      .filter(({ slot }) => slot > branchPoint)
+      .map(({ thought }) => thought),
+  ];
+}
+
+const excerpt = (text: string, length: number = 200): string =>
+  text.length > length ? `${text.slice(0, length)}...` : text;
+
+// Describe every branch of a session with its branch point and head thought
+export function describeBranches(session: ReasoningSession): BranchInfo[] {
+  const thoughts = session.thoughtHistory;
+  const branchIds = [
+    ...new Set([
+      ...Object.keys(session.branches),
+      ...thoughts.flatMap((t) => (t.branchId ? [t.branchId] : [])),
+    ]),
+  ];
+
+  const describe = (
+    branchId: string | undefined,
+    branchFromThought: number,
+    parentBranchId: string,
+  ): BranchInfo => {
+    const branchThoughts = thoughts.filter((t) => t.branchId === branchId);
+    const head = branchThoughts.reduce<ThoughtData | undefined>(
+      (latest, t) =>
+        !latest || t.thoughtNumber >= latest.thoughtNumber ? t : latest,
+      undefined,
+    );
+
+    return {
+      branchId: branchId ?? TRUNK,
+      branchFromThought,
+      parentBranchId,
+      thoughtNumbers: [
+        ...new Set(branchThoughts.map((t) => t.thoughtNumber)),
+      ].sort((a, b) => a - b),
+      head: head
+        ? {
+            thoughtNumber: head.thoughtNumber,
+            profile: head.profile,
+            excerpt: excerpt(head.answer),
+          }
+        : undefined,
+    };
+  };
+
+  return [
+    describe(undefined, 0, ""),
+    ...branchIds.map((branchId) => {
+      const branchPoint =
+        getBranchOrigin(thoughts, branchId) ??
+        Math.min(...(session.branches[branchId] ?? [1])) - 1;
+      return describe(
+        branchId,
+        branchPoint,
+        getParentBranch(thoughts, branchPoint, branchId) ?? TRUNK,
+      );
+    }),
+  ];
+}
+
+export const ListBranchesSchema = z.object({
+  sessionId: z
+    .string()
+    .optional()
+    .describe("Session whose branches to list. Omit for the default session"),
+});
+
+// Tool definition
+export const LIST_BRANCHES_TOOL: Tool = {
+  name: "list-reasoning-branches",
+  description:
+    "List the branches of a reasoning session with their branch points, thought numbers and head (latest) thought. The trunk is listed first.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sessionId: {
+        type: "string",
+        description:
+          "Session whose branches to list. Omit for the default session",
+      },
+    },
+  },
+};
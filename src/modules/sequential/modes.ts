@@ -0,0 +1,194 @@
+// src/modules/sequential/modes.ts
+import { z } from "zod";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ReasoningMode } from "../config";
+
+export const DEFAULT_MODE = "analytical";
+
+// A mode together with the name it was selected by
+export type SelectedMode = ReasoningMode & { name: string };
+
+export const BUILTIN_MODES: Record<string, ReasoningMode> = {
+  analytical: {
+    description: "Step-by-step analysis that separates facts from assumptions",
+    systemPrompt: `You are an analytical reasoner working through a problem one thought at a time.
+Be precise, keep facts apart from assumptions, and build every step on the evidence available.`,
+    steps: [
+      {
+        title: "Identify the question",
+        instruction: "Clarify what is being asked and the core problem to solve.",
+      },
+      {
+        title: "Recall relevant knowledge",
+        instruction:
+          "Bring in the information and context the solution depends on, including the user context and previous thoughts.",
+      },
+      {
+        title: "Formulate the answer",
+        instruction: "Develop an initial answer from the question and the recalled knowledge.",
+      },
+      {
+        title: "Refine the answer",
+        instruction: "Improve its clarity, accuracy and relevance.",
+      },
+      {
+        title: "Self-correct",
+        instruction: "Review for errors, gaps and unsupported claims before finalizing.",
+      },
+    ],
+    sections: ["Question", "Analysis", "Answer", "Open Questions"],
+  },
+  creative: {
+    description: "Divergent exploration of alternatives before converging on one",
+    systemPrompt: `You are a creative problem solver.
+Explore unconventional directions before converging, and judge ideas only after you have several to compare.`,
+    steps: [
+      {
+        title: "Reframe the problem",
+        instruction: "Restate the problem from at least one unusual angle.",
+      },
+      {
+        title: "Generate alternatives",
+        instruction: "Propose at least three distinct approaches, including one that breaks a stated assumption.",
+      },
+      {
+        title: "Combine and extend",
+        instruction: "Look for ways to merge the strongest parts of different ideas.",
+      },
+      {
+        title: "Evaluate",
+        instruction: "Test the candidates against the constraints in the request.",
+      },
+      {
+        title: "Select and develop",
+        instruction: "Choose the most promising idea and flesh it out.",
+      },
+    ],
+    sections: ["Reframing", "Ideas", "Recommendation", "Risks"],
+  },
+  critical: {
+    description: "Constructive critique with strengths, weaknesses and concrete fixes",
+    systemPrompt: `You are an AI assistant providing constructive criticism through sequential thinking.
+Your task is to evaluate the subject matter and offer balanced feedback with specific, actionable suggestions.
+You should identify both strengths and areas for improvement while maintaining a supportive, solution-oriented approach.`,
+    steps: [
+      {
+        title: "Demonstrate Understanding",
+        instruction: "Briefly summarize your understanding of the key elements presented.",
+      },
+      {
+        title: "Identify Strengths",
+        instruction: "Point out specific positive aspects of the subject matter.",
+      },
+      {
+        title: "Identify Areas for Improvement",
+        instruction: "Highlight specific elements that could be enhanced or refined.",
+      },
+      {
+        title: "Provide Actionable Suggestions",
+        instruction: "For each area of improvement, offer concrete, practical recommendations.",
+      },
+      {
+        title: "Maintain Balance",
+        instruction: "Keep the critique balanced, focused on the work itself and supportive in tone.",
+      },
+    ],
+    sections: ["Understanding", "Strengths", "Improvements", "Suggestions"],
+  },
+  reflective: {
+    description: "Review of the reasoning so far: assumptions, blind spots and what should change",
+    systemPrompt: `You are a reflective reasoner reviewing the thinking so far.
+Question your own earlier conclusions as hard as anyone else's, and say plainly what should change.`,
+    steps: [
+      {
+        title: "Restate the current position",
+        instruction: "Summarize where the reasoning stands now.",
+      },
+      {
+        title: "Examine assumptions",
+        instruction: "List the assumptions the position rests on and how well each is supported.",
+      },
+      {
+        title: "Look for blind spots",
+        instruction: "Identify what has been overlooked, underweighted or taken for granted.",
+      },
+      {
+        title: "Weigh the changes",
+        instruction: "Decide which findings actually change the position and why.",
+      },
+      {
+        title: "Revise the position",
+        instruction: "State the updated position and what remains uncertain.",
+      },
+    ],
+    sections: ["Current Position", "Assumptions", "Blind Spots", "Revised Position"],
+  },
+};
+
+// Built-in modes plus the custom modes from the config file
+export class ModeRegistry {
+  private modes: Record<string, ReasoningMode>;
+  private custom: Set<string>;
+
+  constructor(custom: Record<string, ReasoningMode> = {}) {
+    this.modes = { ...BUILTIN_MODES, ...custom };
+    this.custom = new Set(Object.keys(custom));
+  }
+
+  public names(): string[] {
+    return Object.keys(this.modes);
+  }
+
+  public get(name: string = DEFAULT_MODE): SelectedMode {
+    // Own properties only, so names like "constructor" are unknown rather than prototype members
+    const mode = Object.hasOwn(this.modes, name) ? this.modes[name] : undefined;
+    if (!mode) {
+      throw new Error(
+        `Unknown reasoning mode '${name}'. Available modes: ${this.names().join(", ")}`,
+      );
+    }
+    return { name, ...mode };
+  }
+
+  public describe(): Array<{
+    name: string;
+    description: string;
+    source: "builtin" | "config";
+    steps: string[];
+    sections: string[];
+  }> {
+    return Object.entries(this.modes).map(([name, mode]) => ({
+      name,
+      description: mode.description,
+      source: this.custom.has(name) ? "config" : "builtin",
+      steps: mode.steps.map((step) => step.title),
+      sections: mode.sections,
+    }));
+  }
+}
+
+// Step list and answer layout for the task part of a thought prompt
+export function formatModeInstructions(mode: ReasoningMode): string {
+  const steps = mode.steps
+    .map((step, index) => `${index + 1}. **${step.title}:** ${step.instruction}`)
+    .join("\n");
+  const sections =
+    mode.sections.length > 0
+      ? `\n\nOrganize your response under these ### headings, in this order: ${mode.sections.join(", ")}.`
+      : "";
+
+  return `${steps}${sections}`;
+}
+
+export const ListModesSchema = z.object({});
+
+// Tool definition
+export const LIST_MODES_TOOL: Tool = {
+  name: "list-reasoning-modes",
+  description:
+    "List the reasoning modes accepted by reasoningMode, built-in and from the config file, with their steps and answer sections.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+};
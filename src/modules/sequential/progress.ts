@@ -0,0 +1,59 @@
+// src/modules/sequential/progress.ts
+import type { ProgressToken } from "@modelcontextprotocol/sdk/types.js";
+import type { ProgressUpdate } from "./base";
+
+// Minimum gap between two progress notifications for one request
+const PROGRESS_INTERVAL_MS = 500;
+
+export type ProgressNotificationParams = {
+  progressToken: ProgressToken;
+  progress: number;
+  message?: string;
+  partialText?: string;
+};
+
+// Turn streamed provider updates into throttled MCP progress notifications.
+// Progress counts every token received for the request, summed from the deltas rather than the
+// per-completion counts, so retries, fallbacks and parallel samples never make it go down.
+export function createProgressNotifier(
+  progressToken: ProgressToken,
+  send: (params: ProgressNotificationParams) => Promise<void>,
+  includePartialText: boolean,
+): (update: ProgressUpdate) => void {
+  const pendingTextByProfile = new Map<string, string>();
+  let receivedChars = 0;
+  let lastProgress = 0;
+  let lastSentAt = 0;
+
+  return (update) => {
+    receivedChars += update.delta.length;
+    if (includePartialText) {
+      pendingTextByProfile.set(
+        update.profile,
+        (pendingTextByProfile.get(update.profile) ?? "") + update.delta,
+      );
+    }
+
+    // The spec requires progress to increase with every notification
+    const progress = Math.ceil(receivedChars / 4);
+    const now = Date.now();
+    if (now - lastSentAt < PROGRESS_INTERVAL_MS || progress <= lastProgress) return;
+    lastSentAt = now;
+    lastProgress = progress;
+
+    const message = `${update.profile}: ${update.channel === "reasoning" ? "reasoning" : "writing answer"} (${update.reasoningTokens} reasoning, ${update.contentTokens} answer tokens)`;
+
+    send({
+      progressToken,
+      progress,
+      message,
+      // Partial text is the profile's output since its last notification
+      partialText: includePartialText
+        ? pendingTextByProfile.get(update.profile)
+        : undefined,
+    }).catch((error) =>
+      console.error(`Failed to send progress notification: ${error}`),
+    );
+    pendingTextByProfile.delete(update.profile);
+  };
+}
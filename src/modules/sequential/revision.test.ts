@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import {
+  REVISION_SUMMARY_HEADING,
+  markSuperseded,
+  resolveRevisionTarget,
+  summarizeRevision,
+} from "./revision";
+import type { ThoughtData } from "./utils";
+
+const thought = (
+  thoughtNumber: number,
+  fields: Partial<ThoughtData> = {},
+): ThoughtData => ({
+  originalQuery: "query",
+  currentThinking: "thinking",
+  thoughtNumber,
+  totalThoughts: 5,
+  nextThoughtNeeded: true,
+  answer: `answer ${thoughtNumber}`,
+  ...fields,
+});
+
+describe("resolveRevisionTarget", () => {
+  test("follows supersededBy links to the latest version", () => {
+    const original = thought(2, { supersededBy: 4 });
+    const firstRevision = thought(4, { supersededBy: 6 });
+    const secondRevision = thought(6);
+    const thoughts = [thought(1), original, firstRevision, thought(5), secondRevision];
+
+    expect(resolveRevisionTarget(thoughts, 2)).toBe(secondRevision);
+    expect(resolveRevisionTarget(thoughts, 5)?.answer).toBe("answer 5");
+    expect(resolveRevisionTarget(thoughts, 9)).toBeUndefined();
+  });
+
+  test("prefers the thought on the requested branch", () => {
+    const trunk = thought(3);
+    const branch = thought(3, { branchId: "B" });
+    const thoughts = [trunk, branch];
+
+    expect(resolveRevisionTarget(thoughts, 3, "B")).toBe(branch);
+    expect(resolveRevisionTarget(thoughts, 3)).toBe(trunk);
+    // Another branch falls back to the latest record with that number
+    expect(resolveRevisionTarget(thoughts, 3, "C")).toBe(branch);
+  });
+
+  test("stops on supersededBy cycles", () => {
+    const first = thought(2, { supersededBy: 3 });
+    const second = thought(3, { supersededBy: 2 });
+    expect([first, second]).toContain(resolveRevisionTarget([first, second], 2)!);
+  });
+});
+
+describe("markSuperseded", () => {
+  test("marks the target and its earlier versions on the same profile and branch", () => {
+    const original = thought(2, { profile: "fast", supersededBy: 4 });
+    const target = thought(4, { profile: "fast" });
+    const otherProfile = thought(2, { profile: "deep", supersededBy: 4 });
+    const otherBranch = thought(2, {
+      profile: "fast",
+      branchId: "B",
+      supersededBy: 4,
+    });
+
+    markSuperseded([original, target, otherProfile, otherBranch], target, 7);
+
+    expect(target.supersededBy).toBe(7);
+    expect(original.supersededBy).toBe(7);
+    expect(otherProfile.supersededBy).toBe(4);
+    expect(otherBranch.supersededBy).toBe(4);
+  });
+
+  test("treats the model as the profile for thoughts without one", () => {
+    const original = thought(1, { model: "m", supersededBy: 2 });
+    const target = thought(2, { model: "m" });
+
+    markSuperseded([original, target], target, 3);
+
+    expect(original.supersededBy).toBe(3);
+  });
+});
+
+describe("summarizeRevision", () => {
+  test("uses the model's summary section up to the next heading", () => {
+    const revised = `## Answer\nNew text\n\n${REVISION_SUMMARY_HEADING}\nFixed the estimate.\n\n## Next\nMore`;
+    expect(summarizeRevision("Old text", revised)).toBe("Fixed the estimate.");
+  });
+
+  test("caps long summaries", () => {
+    const revised = `${REVISION_SUMMARY_HEADING}\n${"x".repeat(700)}`;
+    expect(summarizeRevision("", revised)).toBe(`${"x".repeat(600)}...`);
+  });
+
+  test("counts changed lines when there is no summary section", () => {
+    expect(summarizeRevision("a\nb\nc", "a\nc\nd\ne")).toBe(
+      "2 line(s) added and 1 line(s) removed compared to the previous version.",
+    );
+  });
+
+  test("counts changed lines when the summary section is empty", () => {
+    expect(summarizeRevision("a", `a\n${REVISION_SUMMARY_HEADING}\n`)).toBe(
+      "1 line(s) added and 0 line(s) removed compared to the previous version.",
+    );
+  });
+});
@@ -0,0 +1,82 @@
+// src/modules/sequential/revision.ts
+import type { ThoughtData } from "./utils";
+
+// Heading the model is asked to open a revision with
+export const REVISION_SUMMARY_HEADING = "### Revision Summary";
+
+// Find the current version of a revised thought, following supersededBy links
+export function resolveRevisionTarget(
+  thoughts: ThoughtData[],
+  revisesThought: number,
+  branchId?: string,
+): ThoughtData | undefined {
+  const latestWithNumber = (thoughtNumber: number): ThoughtData | undefined => {
+    const candidates = thoughts.filter((t) => t.thoughtNumber === thoughtNumber);
+    return (
+      candidates.filter((t) => t.branchId === branchId).pop() ??
+      candidates.pop()
+    );
+  };
+
+  let target = latestWithNumber(revisesThought);
+  const seen = new Set<ThoughtData>();
+
+  // Revising a thought that was already revised means revising its latest version
+  while (target?.supersededBy !== undefined && !seen.has(target)) {
+    seen.add(target);
+    const next = latestWithNumber(target.supersededBy);
+    if (!next || next === target) break;
+    target = next;
+  }
+
+  return target;
+}
+
+// Mark a thought and every earlier version it replaced as superseded by the revision. Earlier
+// versions are only looked for on the target's own profile and branch, where thought numbers
+// are unique
+export function markSuperseded(
+  thoughts: ThoughtData[],
+  target: ThoughtData,
+  revisionNumber: number,
+): void {
+  const profile = target.profile ?? target.model;
+  for (const thought of thoughts) {
+    if (
+      thought === target ||
+      (thought.supersededBy !== undefined &&
+        thought.supersededBy === target.thoughtNumber &&
+        (thought.profile ?? thought.model) === profile &&
+        thought.branchId === target.branchId)
+    ) {
+      thought.supersededBy = revisionNumber;
+    }
+  }
+}
+
+// Prefer the model's own summary section, falling back to a line-level change count
+export function summarizeRevision(
+  previous: string,
+  revised: string,
+): string {
+  const headingIndex = revised.indexOf(REVISION_SUMMARY_HEADING);
+  if (headingIndex !== -1) {
+    const body = revised.slice(headingIndex + REVISION_SUMMARY_HEADING.length);
+    const nextHeading = body.search(/\n#{1,3} /);
+    const summary = (nextHeading === -1 ? body : body.slice(0, nextHeading)).trim();
+    if (summary.length > 0) {
+      return summary.length > 600 ? `${summary.slice(0, 600)}...` : summary;
+    }
+  }
+
+  const previousLines = new Set(previous.split("\n").map((line) => line.trim()));
+  const revisedLines = new Set(revised.split("\n").map((line) => line.trim()));
+  const added = [...revisedLines].filter(
+    (line) => line && !previousLines.has(line),
+  ).length;
+  const removed = [...previousLines].filter(
+    (line) => line && !revisedLines.has(line),
+  ).length;
+
+  return `${added} line(s) added and ${removed} line(s) removed compared to the previous version.`;
+}
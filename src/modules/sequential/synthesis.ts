@@ -0,0 +1,194 @@
+// src/modules/sequential/synthesis.ts
+import { z } from "zod";
+
+// What the judge must return; list order is the ranking
+export const SynthesisSchema = z.object({
+  summary: z.string().optional(),
+  agreements: z
+    .array(
+      z.object({
+        point: z.string(),
+        models: z.array(z.string()),
+      }),
+    )
+    .default([]),
+  contradictions: z
+    .array(
+      z.object({
+        topic: z.string(),
+        positions: z.array(
+          z.object({
+            model: z.string(),
+            position: z.string(),
+          }),
+        ),
+      }),
+    )
+    .default([]),
+  actions: z
+    .array(
+      z.object({
+        action: z.string(),
+        rationale: z.string().optional(),
+        models: z.array(z.string()),
+      }),
+    )
+    .default([]),
+});
+
+export type Synthesis = z.infer<typeof SynthesisSchema>;
+
+// One model's contribution to the thought being reconciled
+export type SynthesisInput = {
+  profile: string;
+  model: string;
+  answer: string;
+};
+
+export function buildSynthesisPrompts(
+  originalQuery: string,
+  currentThinking: string,
+  thoughtNumber: number,
+  inputs: SynthesisInput[],
+): { systemPrompt: string; userPrompt: string } {
+  const systemPrompt = `You are a judge reconciling independent analyses of the same problem written by several models.
+Report only what the models actually said. Never add points of your own, and attribute every point to the models that made it using their exact names.`;
+
+  const analyses = inputs
+    .map((input) => `### Model: ${input.profile}\n\n${input.answer}`)
+    .join("\n\n");
+
+  const userPrompt = `
+**Original Request:** ${originalQuery}
+
+**Current Thinking (Thought #${thoughtNumber}):** ${currentThinking}
+
+**Model Analyses:**
+
+${analyses}
+
+**Your Task:**
+Merge these analyses into one critique. Respond with a single JSON object in a \`\`\`json code block and nothing else:
+
+\`\`\`json
+{
+  "summary": "One or two sentences on where the models stand overall",
+  "agreements": [{ "point": "A point the models share", "models": ["model names"] }],
+  "contradictions": [
+    {
+      "topic": "What the models disagree on",
+      "positions": [{ "model": "model name", "position": "What this model claims" }]
+    }
+  ],
+  "actions": [{ "action": "A recommended action", "rationale": "Why", "models": ["models that support it"] }]
+}
+\`\`\`
+
+Order "actions" from most to least important. Use only these model names: ${inputs.map((input) => input.profile).join(", ")}.
+`;
+
+  return { systemPrompt, userPrompt };
+}
+
+// Pull the JSON object out of a judge's answer and validate it against a schema
+export function parseJudgeJson<T extends z.ZodTypeAny>(
+  text: string,
+  schema: T,
+): z.infer<T> {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate =
+    fenced?.[1] ?? text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(candidate);
+  } catch (error) {
+    throw new Error(`Judge did not return valid JSON: ${error}`);
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(
+      `Judge returned an unexpected structure: ${result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`,
+    );
+  }
+  return result.data;
+}
+
+// Validate the judge's synthesis, dropping attributions to models that took no part
+export function parseSynthesis(
+  text: string,
+  profiles: string[],
+): Synthesis {
+  const synthesis = parseJudgeJson(text, SynthesisSchema);
+  const known = (model: string) => profiles.includes(model);
+  return {
+    summary: synthesis.summary,
+    agreements: synthesis.agreements.map((agreement) => ({
+      ...agreement,
+      models: agreement.models.filter(known),
+    })),
+    contradictions: synthesis.contradictions.map((contradiction) => ({
+      ...contradiction,
+      positions: contradiction.positions.filter((position) =>
+        known(position.model),
+      ),
+    })),
+    actions: synthesis.actions.map((action) => ({
+      ...action,
+      models: action.models.filter(known),
+    })),
+  };
+}
+
+const attribution = (models: string[]): string =>
+  models.length > 0 ? ` [${models.join(", ")}]` : "";
+
+// Render a synthesis as the text block appended to a multi-model response
+export function formatSynthesis(synthesis: Synthesis): string {
+  const sections: string[] = [];
+
+  if (synthesis.summary) {
+    sections.push(synthesis.summary);
+  }
+
+  sections.push(
+    `Agreements:\n${
+      synthesis.agreements.length > 0
+        ? synthesis.agreements
+            .map((agreement) => `- ${agreement.point}${attribution(agreement.models)}`)
+            .join("\n")
+        : "- None"
+    }`,
+  );
+
+  sections.push(
+    `Contradictions:\n${
+      synthesis.contradictions.length > 0
+        ? synthesis.contradictions
+            .map(
+              (contradiction) =>
+                `- ${contradiction.topic}\n${contradiction.positions
+                  .map((position) => `  - ${position.model}: ${position.position}`)
+                  .join("\n")}`,
+            )
+            .join("\n")
+        : "- None"
+    }`,
+  );
+
+  sections.push(
+    `Recommended Actions:\n${
+      synthesis.actions.length > 0
+        ? synthesis.actions
+            .map(
+              (action, index) =>
+                `${index + 1}. ${action.action}${attribution(action.models)}${action.rationale ? `\n   ${action.rationale}` : ""}`,
+            )
+            .join("\n")
+        : "- None"
+    }`,
+  );
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,207 @@
+// src/modules/sequential/tool-requests.ts
+import { z } from "zod";
+import {
+  AvailableTool,
+  findUnsupportedKeywords,
+  validateJsonSchema,
+} from "./available-tools";
+import { detectToolRequest } from "./utils";
+
+// Most suggestions kept from a single thought
+export const MAX_TOOL_REQUESTS = 5;
+
+const PRIORITIES = ["high", "medium", "low"] as const;
+
+// One entry of the tool-requests block a model appends to its answer
+export const ToolRequestSchema = z.object({
+  toolType: z.string().min(1),
+  query: z.string().min(1),
+  rationale: z.string().optional(),
+  priority: z.enum(PRIORITIES).default("medium"),
+  // Arguments for a declared tool, checked against its input schema
+  arguments: z.record(z.unknown()).optional(),
+});
+
+export type ToolRequest = z.infer<typeof ToolRequestSchema> & {
+  // "block" when the model used the structured format, "pattern" when guessed from its prose
+  source: "block" | "pattern";
+  // Set when the tool's input schema uses keywords the server cannot check, so the arguments
+  // were passed on without validation
+  argumentsUnchecked?: boolean;
+};
+
+// A request dropped because it names an undeclared tool or has invalid arguments
+export type RejectedToolRequest = {
+  toolType: string;
+  query: string;
+  errors: string[];
+};
+
+const TOOL_REQUEST_BLOCK = /```tool-requests[^\n]*\n([\s\S]*?)```/;
+
+// Prompt instructions describing the tool-requests block, built around the client's own tools
+// when it declared any. With acceptUndeclared the listed tools are offered next to any other
+// tool type
+export function buildToolRequestInstructions(
+  availableTools: AvailableTool[] = [],
+  acceptUndeclared: boolean = false,
+): string {
+  if (availableTools.length > 0) {
+    const tools = availableTools
+      .map(
+        (tool) =>
+          `- ${tool.name}${tool.description ? `: ${tool.description}` : ""}${tool.inputSchema ? `\n  Input schema: ${JSON.stringify(tool.inputSchema)}` : ""}`,
+      )
+      .join("\n");
+    const example = availableTools[0];
+    const toolTypeRule = acceptUndeclared
+      ? `"toolType" is one of the tool names above, with "arguments" that satisfy its input schema, or another tool type such as code_retrieval, documentation or symbol_definition`
+      : `"toolType" must be one of the tool names above and "arguments" must satisfy that tool's input schema`;
+
+    return `These tools can be run for you:
+${tools}
+
+If you need information from a tool before the reasoning can go further, end your response with a fenced block tagged tool-requests that holds a JSON array of at most ${MAX_TOOL_REQUESTS} requests. ${toolTypeRule}:
+
+\`\`\`tool-requests
+[
+  {
+    "toolType": "${example.name}",
+    "query": "What you want to find out",
+    "arguments": {},
+    "rationale": "Why this information is needed",
+    "priority": "high"
+  }
+]
+\`\`\`
+
+Priority is high, medium or low. Leave the block out when no tool is needed.`;
+  }
+
+  return `If you need information from a tool before the reasoning can go further, end your response with a fenced block tagged tool-requests that holds a JSON array of at most ${MAX_TOOL_REQUESTS} requests:
+
+\`\`\`tool-requests
+[
+  {
+    "toolType": "code_retrieval",
+    "query": "parseConfig in src/config.ts",
+    "rationale": "Why this information is needed",
+    "priority": "high"
+  }
+]
+\`\`\`
+
+Common tool types are code_retrieval, documentation, file_content, symbol_definition and file_search. Priority is high, medium or low. Leave the block out when no tool is needed.`;
+}
+
+// Split a model answer into its prose and the tool requests it makes. The structured block
+// wins; models that ignore the format fall back to phrase detection on the prose. When tools
+// are declared, requests must name one of them with valid arguments after normalize has run;
+// with acceptUndeclared only requests for the listed tools are checked
+export function extractToolRequests(
+  text: string,
+  availableTools: AvailableTool[] = [],
+  normalize: (request: ToolRequest) => ToolRequest = (request) => request,
+  acceptUndeclared: boolean = false,
+): {
+  answer: string;
+  toolRequests: ToolRequest[];
+  rejectedToolRequests: RejectedToolRequest[];
+} {
+  const block = text.match(TOOL_REQUEST_BLOCK);
+  const answer = block
+    ? `${text.slice(0, block.index)}${text.slice(block.index! + block[0].length)}`.trim()
+    : text;
+
+  let requests = block ? parseToolRequestBlock(block[1]) : null;
+  if (!requests) {
+    const detected = detectToolRequest(answer);
+    requests = detected
+      ? [
+          {
+            toolType: detected.toolType,
+            query: detected.query,
+            priority: "medium",
+            source: "pattern",
+          },
+        ]
+      : [];
+  }
+
+  requests = requests.map(normalize);
+  if (availableTools.length === 0) {
+    return { answer, toolRequests: requests, rejectedToolRequests: [] };
+  }
+
+  const toolRequests: ToolRequest[] = [];
+  const rejectedToolRequests: RejectedToolRequest[] = [];
+  for (const request of requests) {
+    const { errors, unchecked } = checkAgainstTools(
+      request,
+      availableTools,
+      acceptUndeclared,
+    );
+    if (errors.length === 0) {
+      toolRequests.push(unchecked ? { ...request, argumentsUnchecked: true } : request);
+    } else {
+      rejectedToolRequests.push({
+        toolType: request.toolType,
+        query: request.query,
+        errors,
+      });
+    }
+  }
+  return { answer, toolRequests, rejectedToolRequests };
+}
+
+// Problems with a request against the declared tools; no errors when it can be run as is.
+// Arguments of a tool whose schema cannot be fully checked are let through as unchecked
+function checkAgainstTools(
+  request: ToolRequest,
+  availableTools: AvailableTool[],
+  acceptUndeclared: boolean,
+): { errors: string[]; unchecked: boolean } {
+  const tool = availableTools.find((candidate) => candidate.name === request.toolType);
+  if (!tool) {
+    if (acceptUndeclared) return { errors: [], unchecked: false };
+    return {
+      errors: [
+        `Unknown tool '${request.toolType}'. Declared tools: ${availableTools.map((candidate) => candidate.name).join(", ")}`,
+      ],
+      unchecked: false,
+    };
+  }
+  if (!tool.inputSchema) return { errors: [], unchecked: false };
+  if (findUnsupportedKeywords(tool.inputSchema).length > 0) {
+    return { errors: [], unchecked: true };
+  }
+  return {
+    errors: validateJsonSchema(request.arguments ?? {}, tool.inputSchema),
+    unchecked: false,
+  };
+}
+
+// Valid requests from a block, highest priority first; null when the block is unusable
+function parseToolRequestBlock(body: string): ToolRequest[] | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch (error) {
+    console.error(`Ignoring malformed tool-requests block: ${error}`);
+    return null;
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : [parsed];
+  const requests = entries.flatMap((entry) => {
+    const result = ToolRequestSchema.safeParse(entry);
+    return result.success ? [{ ...result.data, source: "block" as const }] : [];
+  });
+  if (requests.length === 0 && entries.length > 0) {
+    console.error("Ignoring tool-requests block without a valid request");
+    return null;
+  }
+
+  return requests
+    .sort((a, b) => PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority))
+    .slice(0, MAX_TOOL_REQUESTS);
+}
@@ -1,8 +1,17 @@
 // src/modules/sequential/utils.ts
 import { z } from "zod";
 import { CodeContextSchema } from "../code/context";
+import type { ToolExecution } from "../code/local-tools";
+import { AvailableToolSchema } from "./available-tools";
+import type { ToolRequest } from "./tool-requests";
 
 export const SequentialThinkingSchema = z.object({
+  sessionId: z
+    .string()
+    .optional()
+    .describe(
+      "Reasoning session to record this thought in. Omit to use the shared default session",
+    ),
   currentThinking: z
     .string()
     .describe(
@@ -33,9 +42,11 @@ export const SequentialThinkingSchema = z.object({
     .optional()
     .describe("If more thoughts are needed"),
   reasoningMode: z
-    .enum(["analytical", "creative", "critical", "reflective"])
+    .string()
     .default("analytical")
-    .describe("The style of reasoning to apply"),
+    .describe(
+      "Reasoning mode that sets the system prompt, steps and answer sections: analytical, creative, critical, reflective, or a custom mode from the config file",
+    ),
   externalToolResult: z
     .object({
       toolType: z.string().describe("The type of tool that was used"),
@@ -44,6 +55,12 @@ export const SequentialThinkingSchema = z.object({
     })
     .optional()
     .describe("Results from an external tool to incorporate into thinking"),
+  availableTools: z
+    .array(AvailableToolSchema)
+    .optional()
+    .describe(
+      "Tools the client can run, so tool requests name real tools with valid arguments. Added to those registered on the session",
+    ),
   // Updated userContext to support both string and CodeContext
   userContext: z
     .union([z.string(), CodeContextSchema])
@@ -60,17 +77,43 @@ export type ThoughtData = {
   thoughtNumber: number;
   totalThoughts: number;
   nextThoughtNeeded: boolean;
-  thought: string;
+  answer: string; // The model's final answer for this thought
+  reasoning?: string; // Raw reasoning trace, when the model exposes one
+  truncated?: boolean; // Generation stopped early; answer and reasoning hold the partial output
+  timedOut?: boolean; // The stop was caused by the profile timeout
   isRevision?: boolean;
   revisesThought?: number;
+  revisionSummary?: string; // What a revision changed compared to the version it replaced
+  supersededBy?: number; // Set once a later revision replaces this thought
   branchFromThought?: number;
   branchId?: string;
   reasoningMode?: string;
-  suggestedToolUse?: {
+  // Links a debate turn to its debate and to the positions it answered
+  debate?: {
+    debateId: string;
+    round: number; // 0 for opening positions
+    respondsTo: string[]; // Profiles whose previous-round positions this turn addressed
+  };
+  toolRequests?: ToolRequest[]; // Tools the model asked for, highest priority first
+  toolExecutions?: ToolExecution[]; // Local tools the server ran before keeping this answer
+  userContext?: string | z.infer<typeof CodeContextSchema>; // Updated to support both types
+  externalToolResult?: {
     toolType: string;
     query: string;
+    result: string;
   };
-  userContext?: string | z.infer<typeof CodeContextSchema>; // Updated to support both types
+  model?: string; // Model id that actually generated the thought
+  fallbackProfile?: string; // Fallback profile used after the profile's own model failed
+  promptVersion?: string; // Prompt template and version the thought was generated from, e.g. "default@1"
+  // Self-consistency result when the thought was chosen from several samples
+  consistency?: {
+    samples: number; // Complete samples that voted
+    agreementRatio: number; // Share of samples in the majority cluster
+    majorityConclusion: string;
+    dissents: Array<{ share: number; conclusion: string }>;
+  };
+  profile?: string; // Model profile that generated the thought
+  timestamp?: number;
 };
 
 export const detectToolRequest = (
@@ -0,0 +1,312 @@
+// src/modules/session/export.ts
+import { z } from "zod";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { TRUNK, describeBranches } from "../sequential/lineage";
+import type { ThoughtData } from "../sequential/utils";
+import type { ReasoningSession } from "./index";
+
+// Bumped whenever the JSON export layout changes
+export const EXPORT_SCHEMA_VERSION = "3.1";
+
+export const ExportReasoningSchema = z.object({
+  sessionId: z
+    .string()
+    .optional()
+    .describe("Session to export. Omit for the default session"),
+  format: z
+    .enum(["markdown", "json", "mermaid"])
+    .default("markdown")
+    .describe("Output format"),
+  branchId: z
+    .string()
+    .optional()
+    .describe(`Only export one branch ('${TRUNK}' for thoughts off any branch)`),
+});
+
+export type ExportFormat = z.infer<typeof ExportReasoningSchema>["format"];
+
+const onBranch = (thought: ThoughtData, branchId?: string): boolean =>
+  branchId === undefined ||
+  (branchId === TRUNK ? !thought.branchId : thought.branchId === branchId);
+
+// Stable, explicitly ordered record so exports diff cleanly across versions
+const toExportRecord = (thought: ThoughtData, index: number) => ({
+  id: index,
+  thoughtNumber: thought.thoughtNumber,
+  totalThoughts: thought.totalThoughts,
+  branchId: thought.branchId ?? null,
+  branchFromThought: thought.branchFromThought ?? null,
+  isRevision: thought.isRevision ?? false,
+  revisesThought: thought.revisesThought ?? null,
+  revisionSummary: thought.revisionSummary ?? null,
+  supersededBy: thought.supersededBy ?? null,
+  profile: thought.profile ?? null,
+  model: thought.model ?? null,
+  fallbackProfile: thought.fallbackProfile ?? null,
+  reasoningMode: thought.reasoningMode ?? null,
+  promptVersion: thought.promptVersion ?? null,
+  debate: thought.debate ?? null,
+  timestamp: thought.timestamp ? new Date(thought.timestamp).toISOString() : null,
+  currentThinking: thought.currentThinking,
+  reasoning: thought.reasoning ?? null,
+  answer: thought.answer,
+  truncated: thought.truncated ?? false,
+  timedOut: thought.timedOut ?? false,
+  consistency: thought.consistency ?? null,
+  externalToolResult: thought.externalToolResult ?? null,
+  toolRequests: thought.toolRequests ?? [],
+  toolExecutions: thought.toolExecutions ?? [],
+});
+
+function exportJson(session: ReasoningSession, thoughts: ThoughtData[]): string {
+  return JSON.stringify(
+    {
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      session: {
+        id: session.id,
+        title: session.title ?? null,
+        originalQuery: session.originalQuery,
+        createdAt: new Date(session.createdAt).toISOString(),
+      },
+      branches: describeBranches(session).map((branch) => ({
+        branchId: branch.branchId,
+        branchFromThought: branch.branchFromThought,
+        parentBranchId: branch.parentBranchId || null,
+        thoughtNumbers: branch.thoughtNumbers,
+      })),
+      thoughts: thoughts.map((t) =>
+        toExportRecord(t, session.thoughtHistory.indexOf(t)),
+      ),
+    },
+    null,
+    2,
+  );
+}
+
+function exportMarkdown(session: ReasoningSession, thoughts: ThoughtData[]): string {
+  let markdown = `# ${session.title ?? "Reasoning Trace"}\n\n`;
+  markdown += `**Session:** \`${session.id}\`  \n`;
+  markdown += `**Started:** ${new Date(session.createdAt).toISOString()}\n\n`;
+  markdown += `## Original Question\n\n${session.originalQuery}\n\n`;
+
+  const branches = describeBranches(session).filter(
+    (branch) => branch.branchId !== TRUNK,
+  );
+  if (branches.length > 0) {
+    markdown += `## Branches\n\n`;
+    for (const branch of branches) {
+      markdown += `- **${branch.branchId}** from Thought #${branch.branchFromThought} (${branch.parentBranchId}), thoughts ${branch.thoughtNumbers.join(", ")}\n`;
+    }
+    markdown += "\n";
+  }
+
+  markdown += `## Thoughts\n\n`;
+  for (const thought of thoughts) {
+    const labels = [
+      thought.branchId ? `branch \`${thought.branchId}\`` : undefined,
+      thought.isRevision ? `revises #${thought.revisesThought}` : undefined,
+      thought.supersededBy !== undefined
+        ? `superseded by #${thought.supersededBy}`
+        : undefined,
+      thought.debate
+        ? thought.debate.round === 0
+          ? "debate opening"
+          : `debate round ${thought.debate.round}, answering ${thought.debate.respondsTo.join(", ")}`
+        : undefined,
+      thought.consistency
+        ? `${Math.round(thought.consistency.agreementRatio * 100)}% of ${thought.consistency.samples} samples agree`
+        : undefined,
+      thought.truncated
+        ? thought.timedOut
+          ? "truncated (timed out)"
+          : "truncated"
+        : undefined,
+    ].filter(Boolean);
+
+    markdown += `### Thought #${thought.thoughtNumber}`;
+    if (thought.profile) markdown += ` — ${thought.profile}`;
+    if (thought.model && thought.model !== thought.profile) {
+      markdown += ` (\`${thought.model}\`)`;
+    }
+    markdown += "\n\n";
+
+    if (labels.length > 0) markdown += `_${labels.join(" · ")}_\n\n`;
+    if (thought.reasoningMode) {
+      markdown += `**Mode:** ${thought.reasoningMode}\n\n`;
+    }
+    markdown += `**Input:**\n\n> ${thought.currentThinking.split("\n").join("\n> ")}\n\n`;
+
+    if (thought.externalToolResult) {
+      markdown += `**Incorporated tool result** (${thought.externalToolResult.toolType}: ${thought.externalToolResult.query}):\n\n`;
+      const fence = fenceFor(thought.externalToolResult.result);
+      markdown += `${fence}\n${thought.externalToolResult.result}\n${fence}\n\n`;
+    }
+
+    if (thought.revisionSummary) {
+      markdown += `**What changed:** ${thought.revisionSummary}\n\n`;
+    }
+
+    if (thought.reasoning) {
+      markdown += `<details>\n<summary>Reasoning</summary>\n\n${thought.reasoning}\n\n</details>\n\n`;
+    }
+    markdown += `${thought.answer}\n\n`;
+
+    if (thought.toolExecutions?.length) {
+      markdown += `**Tools run by the server:**\n\n${thought.toolExecutions
+        .map(
+          (execution) =>
+            `- ${execution.toolType} — ${execution.query}${execution.ok ? "" : " (failed)"}`,
+        )
+        .join("\n")}\n\n`;
+    }
+
+    if (thought.toolRequests?.length) {
+      markdown += `**Tool requests:**\n\n${thought.toolRequests
+        .map(
+          (request) =>
+            `- ${request.toolType} (${request.priority}) — ${request.query}${request.rationale ? `: ${request.rationale}` : ""}`,
+        )
+        .join("\n")}\n\n`;
+    }
+  }
+
+  return markdown.trimEnd() + "\n";
+}
+
+// Code fence longer than any backtick run in the text, so the text cannot close it early
+const fenceFor = (text: string): string => {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(Math.max(3, longestRun + 1));
+};
+
+const mermaidLabel = (text: string): string =>
+  text.replace(/"/g, "'").replace(/[\n\r]+/g, " ");
+
+function exportMermaid(session: ReasoningSession, thoughts: ThoughtData[]): string {
+  const nodeId = (thought: ThoughtData) =>
+    `T${session.thoughtHistory.indexOf(thought)}`;
+  const lines = ["graph TD"];
+
+  for (const thought of thoughts) {
+    const label = [
+      `#${thought.thoughtNumber}`,
+      thought.profile ?? thought.model,
+      thought.branchId ? `branch ${thought.branchId}` : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    lines.push(`  ${nodeId(thought)}["${mermaidLabel(label)}"]`);
+  }
+
+  for (const thought of thoughts) {
+    const sameModel = thoughts.filter(
+      (t) => (t.profile ?? t.model) === (thought.profile ?? thought.model),
+    );
+
+    // Sequence edge from the latest earlier thought on the same branch, or from the branch point
+    const predecessor =
+      sameModel
+        .filter(
+          (t) =>
+            t.branchId === thought.branchId &&
+            t.thoughtNumber < thought.thoughtNumber,
+        )
+        .sort((a, b) => a.thoughtNumber - b.thoughtNumber)
+        .pop() ??
+      (thought.branchId && thought.branchFromThought !== undefined
+        ? sameModel
+            .filter(
+              (t) =>
+                t.thoughtNumber === thought.branchFromThought &&
+                t.branchId !== thought.branchId,
+            )
+            .pop()
+        : undefined);
+
+    if (predecessor) {
+      const edge = thought.branchId && predecessor.branchId !== thought.branchId
+        ? `-- "${mermaidLabel(thought.branchId)}" -->`
+        : "-->";
+      lines.push(`  ${nodeId(predecessor)} ${edge} ${nodeId(thought)}`);
+    }
+
+    if (thought.isRevision && thought.revisesThought !== undefined) {
+      for (const revised of sameModel.filter(
+        (t) => t.thoughtNumber === thought.revisesThought && t !== thought,
+      )) {
+        lines.push(`  ${nodeId(thought)} -. revises .-> ${nodeId(revised)}`);
+      }
+    }
+
+    // Debate rounds share a thought number, so each one follows the model's own previous round
+    // and is linked to the positions it answers
+    const debate = thought.debate;
+    if (debate && debate.round > 0) {
+      const previousRound = thoughts.filter(
+        (t) =>
+          t.debate?.debateId === debate.debateId &&
+          t.debate.round === debate.round - 1,
+      );
+      for (const own of previousRound.filter((t) => sameModel.includes(t))) {
+        lines.push(`  ${nodeId(own)} --> ${nodeId(thought)}`);
+      }
+      for (const answered of previousRound.filter((t) =>
+        debate.respondsTo.includes(t.profile ?? t.model ?? ""),
+      )) {
+        lines.push(`  ${nodeId(answered)} -. answered by .-> ${nodeId(thought)}`);
+      }
+    }
+  }
+
+  const superseded = thoughts.filter((t) => t.supersededBy !== undefined);
+  if (superseded.length > 0) {
+    lines.push("  classDef superseded stroke-dasharray: 5 5,opacity:0.6");
+    lines.push(`  class ${superseded.map(nodeId).join(",")} superseded`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// Render a session's reasoning trace in the requested format
+export function exportSession(
+  session: ReasoningSession,
+  format: ExportFormat,
+  branchId?: string,
+): string {
+  const thoughts = session.thoughtHistory.filter((t) => onBranch(t, branchId));
+
+  switch (format) {
+    case "json":
+      return exportJson(session, thoughts);
+    case "mermaid":
+      return exportMermaid(session, thoughts);
+    case "markdown":
+      return exportMarkdown(session, thoughts);
+  }
+}
+
+// Tool definition
+export const EXPORT_REASONING_TOOL: Tool = {
+  name: "export-reasoning",
+  description:
+    "Export a reasoning session as readable Markdown, a stable JSON document, or a Mermaid thought graph. Includes revisions, branches, the model behind each thought and any incorporated external tool results, ready to paste into design docs or PRs.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sessionId: {
+        type: "string",
+        description: "Session to export. Omit for the default session",
+      },
+      format: {
+        type: "string",
+        enum: ["markdown", "json", "mermaid"],
+        default: "markdown",
+        description: "Output format",
+      },
+      branchId: {
+        type: "string",
+        description: `Only export one branch ('${TRUNK}' for thoughts off any branch)`,
+      },
+    },
+  },
+};
@@ -0,0 +1,436 @@
+// src/modules/session/index.ts
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  AvailableTool,
+  AvailableToolSchema,
+  findUncheckedTools,
+} from "../sequential/available-tools";
+import type { ThoughtData } from "../sequential/utils";
+import { SessionStore, StoredSession } from "./store";
+
+// Session used when a caller does not pass a sessionId
+export const DEFAULT_SESSION_ID = "default";
+
+export type ReasoningSession = {
+  id: string;
+  title?: string;
+  originalQuery: string;
+  thoughtHistory: ThoughtData[];
+  branches: Record<string, number[]>;
+  // Client tools offered to the models on every thought of the session
+  availableTools?: AvailableTool[];
+  createdAt: number;
+  lastActiveAt: number;
+};
+
+export const StartSessionSchema = z.object({
+  query: z
+    .string()
+    .optional()
+    .describe("The original question or problem this session reasons about"),
+  title: z.string().optional().describe("Short human-readable label"),
+  availableTools: z
+    .array(AvailableToolSchema)
+    .optional()
+    .describe("Tools the client can run, offered to the models on every thought"),
+});
+
+export const RegisterToolsSchema = z.object({
+  sessionId: z
+    .string()
+    .optional()
+    .describe("Session to register the tools on. Omit for the default session"),
+  tools: z
+    .array(AvailableToolSchema)
+    .describe("Tools the client can run, with names, descriptions and input schemas"),
+  replace: z
+    .boolean()
+    .default(false)
+    .describe("Replace the registered tools instead of adding to them"),
+});
+
+export const ListSessionsSchema = z.object({
+  includeStored: z
+    .boolean()
+    .default(false)
+    .describe("Also list persisted sessions that are not currently loaded"),
+});
+
+export const CloseSessionSchema = z.object({
+  sessionId: z.string().describe("Identifier of the session to close"),
+});
+
+export const ResumeSessionSchema = z.object({
+  sessionId: z.string().describe("Identifier of the session to resume"),
+});
+
+// Notified whenever a session is created, updated or closed
+export type SessionChangeListener = (
+  session: ReasoningSession,
+  change: "started" | "updated" | "closed",
+) => void;
+
+export class SessionManager {
+  private sessions: Map<string, ReasoningSession> = new Map();
+  // Reads from the store still in flight, shared by concurrent lookups of the same id
+  private loading: Map<string, Promise<StoredSession | null>> = new Map();
+  // Closed sessions a thought still in flight may hold; saving them would reopen them on disk
+  private closed: WeakSet<ReasoningSession> = new WeakSet();
+  private ttlMs: number;
+  private store: SessionStore | null;
+  private listeners: SessionChangeListener[] = [];
+
+  constructor(ttlMinutes: number, store: SessionStore | null = null) {
+    this.ttlMs = ttlMinutes * 60 * 1000;
+    this.store = store;
+
+    // Sweep idle sessions in the background without keeping the process alive
+    setInterval(() => this.evictExpired(), 60 * 1000).unref();
+  }
+
+  public async start(
+    query?: string,
+    title?: string,
+    availableTools?: AvailableTool[],
+  ): Promise<ReasoningSession> {
+    const now = Date.now();
+    const session: ReasoningSession = {
+      id: randomUUID(),
+      title,
+      originalQuery: query ?? "",
+      thoughtHistory: [],
+      branches: {},
+      availableTools,
+      createdAt: now,
+      lastActiveAt: now,
+    };
+    this.sessions.set(session.id, session);
+    if (this.store) {
+      await this.store.save(session);
+    }
+    this.notify(session, "started");
+    return session;
+  }
+
+  public onChange(listener: SessionChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  // Look up a session for a thinking call, loading it from disk or creating the default one
+  public async resolve(sessionId?: string): Promise<ReasoningSession> {
+    this.evictExpired();
+
+    const id = sessionId ?? DEFAULT_SESSION_ID;
+    let session = this.sessions.get(id);
+
+    if (!session) {
+      const stored = await this.load(id);
+      // A concurrent call may have put the session in memory while this one waited
+      session = this.sessions.get(id) ?? this.open(id, stored);
+    }
+
+    session.lastActiveAt = Date.now();
+    return session;
+  }
+
+  // Restore a stored open session, or create the default one when there is none
+  private open(id: string, stored: StoredSession | null): ReasoningSession {
+    if (stored && stored.closedAt === undefined) {
+      return this.restore(stored);
+    }
+    if (id !== DEFAULT_SESSION_ID) {
+      throw new Error(
+        stored
+          ? `Session '${id}' is closed. Reopen it with resume-reasoning-session`
+          : `Unknown session '${id}'. Start a new one with start-reasoning-session`,
+      );
+    }
+
+    const now = Date.now();
+    const session: ReasoningSession = {
+      id,
+      originalQuery: "",
+      thoughtHistory: [],
+      branches: {},
+      createdAt: now,
+      lastActiveAt: now,
+    };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  // Reload a persisted session by id, reopening it if it was closed
+  public async resume(sessionId: string): Promise<ReasoningSession> {
+    const loaded = this.sessions.get(sessionId);
+    if (loaded) {
+      loaded.lastActiveAt = Date.now();
+      return loaded;
+    }
+
+    const stored = await this.load(sessionId);
+    if (!stored) {
+      throw new Error(`No stored session '${sessionId}' to resume`);
+    }
+
+    const session = this.sessions.get(sessionId) ?? this.restore(stored);
+    session.lastActiveAt = Date.now();
+    await this.save(session);
+    return session;
+  }
+
+  public async list(includeStored: boolean = false): Promise<
+    Array<{ session: ReasoningSession; loaded: boolean; closed: boolean }>
+  > {
+    const stored = includeStored && this.store ? await this.store.list() : [];
+    this.evictExpired();
+
+    const listed = [...this.sessions.values()].map((session) => ({
+      session,
+      loaded: true,
+      closed: false,
+    }));
+
+    for (const session of stored) {
+      if (this.sessions.has(session.id)) continue;
+      listed.push({
+        session,
+        loaded: false,
+        closed: session.closedAt !== undefined,
+      });
+    }
+
+    return listed.sort((a, b) => b.session.lastActiveAt - a.session.lastActiveAt);
+  }
+
+  public async close(sessionId: string): Promise<boolean> {
+    // Prefer the loaded copy, including one a concurrent call restored during the read
+    const stored = this.sessions.has(sessionId) ? null : await this.load(sessionId);
+    const session = this.sessions.get(sessionId) ?? stored;
+    if (!session) return false;
+
+    this.sessions.delete(sessionId);
+    this.closed.add(session);
+    if (this.store) {
+      await this.store.save({ ...session, closedAt: Date.now() });
+    }
+    this.notify(session, "closed");
+    return true;
+  }
+
+  // Read-only lookup of a loaded or persisted session that never creates or reopens one
+  public async find(sessionId: string): Promise<ReasoningSession | null> {
+    return this.sessions.get(sessionId) ?? (await this.load(sessionId));
+  }
+
+  // Persist the session so it survives server restarts. A closed session stays closed: thoughts
+  // that finish after close-reasoning-session are not written back
+  public async save(session: ReasoningSession): Promise<void> {
+    if (this.closed.has(session)) return;
+    if (this.store) {
+      await this.store.save(session);
+    }
+    this.notify(session, "updated");
+  }
+
+  private notify(
+    session: ReasoningSession,
+    change: "started" | "updated" | "closed",
+  ): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(session, change);
+      } catch (error) {
+        console.error(`Session change listener failed: ${error}`);
+      }
+    }
+  }
+
+  public getExpiresAt(session: ReasoningSession): number {
+    return session.lastActiveAt + this.ttlMs;
+  }
+
+  // Read a persisted session; concurrent reads of one id share the same load so they cannot each
+  // restore their own copy
+  private load(sessionId: string): Promise<StoredSession | null> {
+    if (!this.store) return Promise.resolve(null);
+
+    let loading = this.loading.get(sessionId);
+    if (!loading) {
+      loading = this.store
+        .load(sessionId)
+        .finally(() => this.loading.delete(sessionId));
+      this.loading.set(sessionId, loading);
+    }
+    return loading;
+  }
+
+  private restore(stored: StoredSession): ReasoningSession {
+    const { closedAt, ...session } = stored;
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  // Expired sessions only leave memory; their snapshots stay resumable
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (this.getExpiresAt(session) <= now) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+}
+
+// Summarize a session for tool responses
+export function describeSession(
+  session: ReasoningSession,
+  expiresAt?: number,
+): Record<string, unknown> {
+  return {
+    sessionId: session.id,
+    title: session.title,
+    originalQuery: session.originalQuery,
+    thoughtCount: session.thoughtHistory.length,
+    branches: Object.keys(session.branches),
+    availableTools: session.availableTools?.map((tool) => tool.name),
+    uncheckedTools: describeUncheckedTools(session.availableTools),
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastActiveAt: new Date(session.lastActiveAt).toISOString(),
+    expiresAt:
+      expiresAt !== undefined ? new Date(expiresAt).toISOString() : undefined,
+  };
+}
+
+// Declared tools whose arguments are passed on unchecked, for tool responses
+export function describeUncheckedTools(
+  tools?: AvailableTool[],
+): Array<{ name: string; unsupportedKeywords: string[] }> | undefined {
+  const unchecked = findUncheckedTools(tools);
+  return unchecked.length > 0 ? unchecked : undefined;
+}
+
+// JSON Schema of one declared client tool, shared by the tool definitions
+export const AVAILABLE_TOOL_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    name: {
+      type: "string",
+      description: "Tool name exactly as the client calls it",
+    },
+    description: {
+      type: "string",
+      description: "What the tool does",
+    },
+    inputSchema: {
+      type: "object",
+      description: "JSON Schema of the tool's arguments",
+    },
+  },
+  required: ["name"],
+};
+
+// Tool definitions
+export const START_SESSION_TOOL: Tool = {
+  name: "start-reasoning-session",
+  description:
+    "Start an isolated reasoning session. Pass the returned sessionId to combined-sequential-thinking so its thought history, branches and original query are kept apart from other problems or clients. Idle sessions leave memory after a configurable TTL but stay persisted and resumable.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description:
+          "The original question or problem this session reasons about",
+      },
+      title: {
+        type: "string",
+        description: "Short human-readable label",
+      },
+      availableTools: {
+        type: "array",
+        items: AVAILABLE_TOOL_JSON_SCHEMA,
+        description:
+          "Tools the client can run, offered to the models on every thought",
+      },
+    },
+  },
+};
+
+export const REGISTER_TOOLS_TOOL: Tool = {
+  name: "register-available-tools",
+  description:
+    "Register the tools the client can run on a reasoning session. Models are told about them on every thought and their tool requests must name one of them with arguments that match its input schema.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sessionId: {
+        type: "string",
+        description:
+          "Session to register the tools on. Omit for the default session",
+      },
+      tools: {
+        type: "array",
+        items: AVAILABLE_TOOL_JSON_SCHEMA,
+        description:
+          "Tools the client can run, with names, descriptions and input schemas",
+      },
+      replace: {
+        type: "boolean",
+        default: false,
+        description: "Replace the registered tools instead of adding to them",
+      },
+    },
+    required: ["tools"],
+  },
+};
+
+export const LIST_SESSIONS_TOOL: Tool = {
+  name: "list-reasoning-sessions",
+  description:
+    "List active reasoning sessions with their thought counts, branches and expiry times.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      includeStored: {
+        type: "boolean",
+        default: false,
+        description:
+          "Also list persisted sessions that are not currently loaded",
+      },
+    },
+  },
+};
+
+export const CLOSE_SESSION_TOOL: Tool = {
+  name: "close-reasoning-session",
+  description:
+    "Close a reasoning session. Its persisted history is kept and can be reopened with resume-reasoning-session.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sessionId: {
+        type: "string",
+        description: "Identifier of the session to close",
+      },
+    },
+    required: ["sessionId"],
+  },
+};
+
+export const RESUME_SESSION_TOOL: Tool = {
+  name: "resume-reasoning-session",
+  description:
+    "Resume a persisted reasoning session by id, for example after a server restart or on a later day. Its prior thoughts, branches and suggested tool uses are restored.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      sessionId: {
+        type: "string",
+        description: "Identifier of the session to resume",
+      },
+    },
+    required: ["sessionId"],
+  },
+};
@@ -0,0 +1,135 @@
+// src/modules/session/resources.ts
+import type {
+  Resource,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/types.js";
+import { describeBranches } from "../sequential/lineage";
+import { ReasoningSession, SessionManager, describeSession } from "./index";
+
+export const SESSIONS_RESOURCE_URI = "reasoning://sessions";
+
+const SESSION_URI_PATTERN =
+  /^reasoning:\/\/sessions\/([^/]+)(?:\/thoughts\/(\d+))?$/;
+
+export const getSessionUri = (sessionId: string): string =>
+  `${SESSIONS_RESOURCE_URI}/${encodeURIComponent(sessionId)}`;
+
+export const getThoughtUri = (sessionId: string, thoughtNumber: number): string =>
+  `${getSessionUri(sessionId)}/thoughts/${thoughtNumber}`;
+
+export const SESSION_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${SESSIONS_RESOURCE_URI}/{sessionId}`,
+    name: "Reasoning session",
+    description:
+      "A reasoning session with its thoughts, branch structure and suggested tool uses",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: `${SESSIONS_RESOURCE_URI}/{sessionId}/thoughts/{thoughtNumber}`,
+    name: "Reasoning thought",
+    description:
+      "Every stored ThoughtData record with this number in the session, one per model and branch",
+    mimeType: "application/json",
+  },
+];
+
+// Loaded sessions are advertised directly; stored ones stay reachable through the templates
+export async function listSessionResources(
+  sessions: SessionManager,
+): Promise<Resource[]> {
+  const listed = await sessions.list();
+
+  return [
+    {
+      uri: SESSIONS_RESOURCE_URI,
+      name: "Reasoning sessions",
+      description: "All active reasoning sessions",
+      mimeType: "application/json",
+    },
+    ...listed.map(({ session }) => ({
+      uri: getSessionUri(session.id),
+      name: session.title ?? `Reasoning session ${session.id}`,
+      description: session.originalQuery.slice(0, 200) || undefined,
+      mimeType: "application/json",
+    })),
+  ];
+}
+
+const describeSessionDetail = (
+  session: ReasoningSession,
+): Record<string, unknown> => ({
+  ...describeSession(session),
+  branches: describeBranches(session),
+  toolRequests: session.thoughtHistory.flatMap((t) =>
+    (t.toolRequests ?? []).map((request) => ({
+      thoughtNumber: t.thoughtNumber,
+      branchId: t.branchId,
+      profile: t.profile,
+      ...request,
+    })),
+  ),
+  thoughts: session.thoughtHistory,
+});
+
+// Resolve a reasoning:// URI into its JSON contents
+export async function readSessionResource(
+  sessions: SessionManager,
+  uri: string,
+): Promise<{ uri: string; mimeType: string; text: string }> {
+  if (uri === SESSIONS_RESOURCE_URI) {
+    const listed = await sessions.list(true);
+    return {
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(
+        {
+          sessions: listed.map(({ session, loaded, closed }) => ({
+            ...describeSession(session),
+            uri: getSessionUri(session.id),
+            status: closed ? "closed" : loaded ? "active" : "stored",
+          })),
+        },
+        null,
+        2,
+      ),
+    };
+  }
+
+  const match = uri.match(SESSION_URI_PATTERN);
+  if (!match) {
+    throw new Error(`Unknown resource URI: ${uri}`);
+  }
+
+  const sessionId = decodeURIComponent(match[1]);
+  const session = await sessions.find(sessionId);
+  if (!session) {
+    throw new Error(`Unknown session '${sessionId}'`);
+  }
+
+  if (match[2] === undefined) {
+    return {
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(describeSessionDetail(session), null, 2),
+    };
+  }
+
+  const thoughtNumber = Number(match[2]);
+  const thoughts = session.thoughtHistory.filter(
+    (t) => t.thoughtNumber === thoughtNumber,
+  );
+  if (thoughts.length === 0) {
+    throw new Error(`Session '${sessionId}' has no thought #${thoughtNumber}`);
+  }
+
+  return {
+    uri,
+    mimeType: "application/json",
+    text: JSON.stringify(
+      { sessionId: session.id, thoughtNumber, thoughts },
+      null,
+      2,
+    ),
+  };
+}
@@ -0,0 +1,124 @@
+// src/modules/session/store.ts
+import { mkdir, readFile, readdir, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import type { ThoughtData } from "../sequential/utils";
+import type { ReasoningSession } from "./index";
+
+// Session files are named after their id, so ids must be safe file names
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export type StoredSession = ReasoningSession & {
+  closedAt?: number;
+};
+
+// Older snapshots joined reasoning and answer in one `thought` string
+const LEGACY_CONTENT_MARKER = "\n\n=== CONTENT ===\n";
+
+export function isValidSessionId(sessionId: string): boolean {
+  return SESSION_ID_PATTERN.test(sessionId);
+}
+
+// Split legacy `thought` strings into the separate reasoning and answer fields
+function migrateSession(session: StoredSession): StoredSession {
+  for (const record of session.thoughtHistory as Array<
+    ThoughtData & {
+      thought?: string;
+      suggestedToolUse?: { toolType: string; query: string };
+    }
+  >) {
+    // A single regex-detected suggestion became the first of a list of tool requests
+    if (record.suggestedToolUse) {
+      record.toolRequests ??= [
+        { ...record.suggestedToolUse, priority: "medium", source: "pattern" },
+      ];
+      delete record.suggestedToolUse;
+    }
+
+    if (record.answer !== undefined || record.thought === undefined) continue;
+
+    const markerIndex = record.thought.indexOf(LEGACY_CONTENT_MARKER);
+    if (markerIndex === -1) {
+      record.answer = record.thought;
+    } else {
+      record.reasoning = record.thought.slice(0, markerIndex).trim() || undefined;
+      record.answer = record.thought
+        .slice(markerIndex + LEGACY_CONTENT_MARKER.length)
+        .trim();
+    }
+    delete record.thought;
+  }
+  return session;
+}
+
+// Persists each session as a JSON snapshot under a local directory
+export class SessionStore {
+  private directory: string;
+  private pendingWrites: Map<string, Promise<void>> = new Map();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private getPath(sessionId: string): string {
+    if (!isValidSessionId(sessionId)) {
+      throw new Error(`Invalid session id '${sessionId}'`);
+    }
+    return join(this.directory, `${sessionId}.json`);
+  }
+
+  // Writes are chained per session so snapshots never land out of order
+  public save(session: StoredSession): Promise<void> {
+    const previous = this.pendingWrites.get(session.id) ?? Promise.resolve();
+    const snapshot = JSON.stringify(session, null, 2);
+    const path = this.getPath(session.id);
+
+    const write = previous
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(this.directory, { recursive: true });
+        // Write to a temporary file first so a crash never leaves a torn snapshot
+        const tempPath = `${path}.${process.pid}.tmp`;
+        await writeFile(tempPath, snapshot, "utf-8");
+        await rename(tempPath, path);
+      });
+
+    this.pendingWrites.set(session.id, write);
+    return write.finally(() => {
+      if (this.pendingWrites.get(session.id) === write) {
+        this.pendingWrites.delete(session.id);
+      }
+    });
+  }
+
+  public async load(sessionId: string): Promise<StoredSession | null> {
+    if (!isValidSessionId(sessionId)) return null;
+
+    try {
+      const raw = await readFile(this.getPath(sessionId), "utf-8");
+      return migrateSession(JSON.parse(raw) as StoredSession);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw new Error(`Failed to load session '${sessionId}': ${error}`);
+    }
+  }
+
+  public async list(): Promise<StoredSession[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const sessions: StoredSession[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith(".json")) continue;
+      const session = await this.load(entry.slice(0, -".json".length)).catch(
+        () => null,
+      );
+      if (session) sessions.push(session);
+    }
+    return sessions;
+  }
+}